@@ -25,5 +25,11 @@ export default tseslint.config(
       ],
       "@typescript-eslint/no-unused-vars": "off",
     },
+  },
+  {
+    files: ["server/**/*.ts", "vite.config.ts"],
+    languageOptions: {
+      globals: globals.node,
+    },
   }
 );
@@ -0,0 +1,25 @@
+import { createServer } from "node:http"
+import { createPDFProxyHandler, readProxyOptions } from "./pdfProxy"
+
+// Standalone proxy for deployments where the Vite dev server isn't running.
+// Serves the same endpoint as the dev middleware: GET /api/pdf-proxy?url=...
+const PROXY_PATH = "/api/pdf-proxy"
+const port = Number(process.env.PORT ?? 8787)
+const options = readProxyOptions(process.env)
+const handleProxy = createPDFProxyHandler(options)
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost")
+  if (pathname !== PROXY_PATH) {
+    res.statusCode = 404
+    res.end("Not found")
+    return
+  }
+  void handleProxy(req, res)
+})
+
+server.listen(port, () => {
+  console.log(
+    `PDF proxy listening on http://localhost:${port}${PROXY_PATH} (allowed hosts: ${options.allowedHosts.join(", ")})`
+  )
+})
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict"
+import { once } from "node:events"
+import { createServer, type RequestListener, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { after, before, describe, it } from "node:test"
+import { createPDFProxyHandler } from "./pdfProxy"
+
+const DOCUMENT = Buffer.alloc(1000, "%")
+const ETAG = '"v1"'
+const MAX_BYTES = 2000
+const APP_ORIGIN = "http://app.test"
+// Size of each write from /large-streamed.
+const CHUNK_SIZE = 800
+
+const listen = async (handler: RequestListener) => {
+  const server = createServer(handler)
+  server.listen(0, "127.0.0.1")
+  await once(server, "listening")
+  return server
+}
+
+const baseUrl = (server: Server, host = "127.0.0.1") => `http://${host}:${(server.address() as AddressInfo).port}`
+
+// Stands in for the server a PDF is hosted on.
+const handleOrigin: RequestListener = (req, res) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost")
+  switch (pathname) {
+    case "/doc.pdf": {
+      res.setHeader("Content-Type", "application/pdf")
+      res.setHeader("ETag", ETAG)
+      res.setHeader("Accept-Ranges", "bytes")
+      if (req.headers["if-none-match"] === ETAG) {
+        res.statusCode = 304
+        res.end()
+        return
+      }
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? "")
+      if (range) {
+        const [start, end] = [Number(range[1]), Number(range[2])]
+        res.statusCode = 206
+        res.setHeader("Content-Range", `bytes ${start}-${end}/${DOCUMENT.length}`)
+        res.end(DOCUMENT.subarray(start, end + 1))
+        return
+      }
+      res.setHeader("Content-Length", DOCUMENT.length)
+      res.end(DOCUMENT)
+      return
+    }
+    case "/redirect-inside":
+      res.writeHead(302, { Location: "/doc.pdf" }).end()
+      return
+    case "/redirect-outside":
+      // Same server, but under a host name the proxy doesn't allow.
+      res.writeHead(302, { Location: `http://localhost:${(req.socket.address() as AddressInfo).port}/doc.pdf` })
+      res.end()
+      return
+    case "/large-declared":
+      res.writeHead(200, { "Content-Type": "application/pdf", "Content-Length": MAX_BYTES * 2 })
+      res.end(Buffer.alloc(MAX_BYTES * 2))
+      return
+    case "/large-streamed": {
+      // No Content-Length, so only counting the bytes can catch it.
+      res.writeHead(200, { "Content-Type": "application/pdf" })
+      let sent = 0
+      const timer = setInterval(() => {
+        res.write(Buffer.alloc(CHUNK_SIZE))
+        sent += CHUNK_SIZE
+        if (sent > MAX_BYTES * 2) {
+          clearInterval(timer)
+          res.end()
+        }
+      }, 5)
+      res.on("close", () => clearInterval(timer))
+      return
+    }
+    default:
+      res.statusCode = 404
+      res.end()
+  }
+}
+
+describe("PDF proxy", () => {
+  let origin: Server
+  let proxy: Server
+  const through = (path: string, init?: RequestInit, host?: string) =>
+    fetch(`${baseUrl(proxy)}/api/pdf-proxy?url=${encodeURIComponent(baseUrl(origin, host) + path)}`, init)
+
+  before(async () => {
+    origin = await listen(handleOrigin)
+    const handler = createPDFProxyHandler({
+      allowedHosts: ["127.0.0.1"],
+      maxBytes: MAX_BYTES,
+      allowedOrigins: [APP_ORIGIN],
+    })
+    proxy = await listen((req, res) => void handler(req, res))
+  })
+
+  after(() => {
+    origin.close()
+    proxy.close()
+    origin.closeAllConnections()
+    proxy.closeAllConnections()
+  })
+
+  it("relays a document from an allowed host", async () => {
+    const response = await through("/doc.pdf")
+    assert.equal(response.status, 200)
+    assert.equal(response.headers.get("content-type"), "application/pdf")
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), DOCUMENT)
+  })
+
+  it("rejects hosts that aren't on the allowlist", async () => {
+    const response = await through("/doc.pdf", undefined, "localhost")
+    assert.equal(response.status, 403)
+    assert.equal(response.headers.get("x-pdf-proxy-error"), "host-not-allowed")
+  })
+
+  it("follows redirects within the allowlist", async () => {
+    const response = await through("/redirect-inside")
+    assert.equal(response.status, 200)
+    assert.equal((await response.arrayBuffer()).byteLength, DOCUMENT.length)
+  })
+
+  it("rejects redirects to hosts that aren't allowed", async () => {
+    const response = await through("/redirect-outside")
+    assert.equal(response.status, 403)
+    assert.equal(response.headers.get("x-pdf-proxy-error"), "host-not-allowed")
+  })
+
+  it("refuses documents that declare more than maxBytes", async () => {
+    const response = await through("/large-declared")
+    assert.equal(response.status, 413)
+    assert.equal(response.headers.get("x-pdf-proxy-error"), "too-large")
+  })
+
+  it("stops relaying once more than maxBytes have come in", async () => {
+    const response = await through("/large-streamed")
+    // The first chunk is under the limit, so the headers are already out and
+    // the proxy can only cut the connection.
+    assert.equal(response.status, 200)
+    const reader = response.body!.getReader()
+    let received = 0
+    await assert.rejects(async () => {
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) {
+          return
+        }
+        received += value.byteLength
+      }
+    })
+    assert.ok(received < MAX_BYTES + CHUNK_SIZE, `relayed ${received} bytes`)
+  })
+
+  it("passes Range requests through as 206", async () => {
+    const response = await through("/doc.pdf", { headers: { Range: "bytes=100-199" } })
+    assert.equal(response.status, 206)
+    assert.equal(response.headers.get("content-range"), `bytes 100-199/${DOCUMENT.length}`)
+    assert.equal((await response.arrayBuffer()).byteLength, 100)
+  })
+
+  it("answers conditional requests with 304", async () => {
+    const response = await through("/doc.pdf", { headers: { "If-None-Match": ETAG } })
+    assert.equal(response.status, 304)
+    assert.equal(response.headers.get("etag"), ETAG)
+  })
+
+  it("sends CORS headers for allowed origins", async () => {
+    const response = await through("/doc.pdf", { headers: { Origin: APP_ORIGIN } })
+    assert.equal(response.headers.get("access-control-allow-origin"), APP_ORIGIN)
+    assert.match(response.headers.get("access-control-expose-headers") ?? "", /content-range/)
+    await response.arrayBuffer()
+
+    const preflight = await through("/doc.pdf", {
+      method: "OPTIONS",
+      headers: { Origin: APP_ORIGIN, "Access-Control-Request-Headers": "range" },
+    })
+    assert.equal(preflight.status, 204)
+    assert.match(preflight.headers.get("access-control-allow-headers") ?? "", /range/)
+  })
+
+  it("leaves out the CORS grant for other origins", async () => {
+    const response = await through("/doc.pdf", { headers: { Origin: "http://elsewhere.test" } })
+    assert.equal(response.headers.get("access-control-allow-origin"), null)
+    await response.arrayBuffer()
+  })
+})
@@ -0,0 +1,272 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+import { once } from "node:events"
+
+export interface PDFProxyOptions {
+  // Hostnames the proxy may fetch from. "*.example.com" matches subdomains,
+  // "*" matches every host.
+  allowedHosts: string[]
+  // Largest upstream response, in bytes, that will be relayed.
+  maxBytes: number
+  // Page origins allowed to read the response; "*" allows any page.
+  allowedOrigins: string[]
+}
+
+export const DEFAULT_MAX_BYTES = 100 * 1024 * 1024
+// The viewer's sample document; everything else has to be allowed explicitly.
+export const DEFAULT_ALLOWED_HOSTS = ["www.aeee.in"]
+const MAX_REDIRECTS = 5
+const UPSTREAM_TIMEOUT_MS = 30_000
+
+const FORWARDED_HEADERS = [
+  "content-type",
+  "content-length",
+  "last-modified",
+  "etag",
+  "accept-ranges",
+  "content-range",
+]
+// Range lets pdf.js fetch just the parts it needs; the conditional headers
+// let the app's offline cache revalidate without downloading again.
+const FORWARDED_REQUEST_HEADERS = ["range", "if-range", "if-none-match", "if-modified-since"]
+
+const splitList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+
+/**
+ * Reads the proxy settings from environment variables:
+ * PDF_PROXY_ALLOWED_HOSTS, PDF_PROXY_MAX_BYTES and PDF_PROXY_ALLOWED_ORIGINS.
+ */
+export const readProxyOptions = (env: Record<string, string | undefined>): PDFProxyOptions => {
+  const maxBytes = Number(env.PDF_PROXY_MAX_BYTES)
+  const allowedHosts = splitList(env.PDF_PROXY_ALLOWED_HOSTS)
+  const allowedOrigins = splitList(env.PDF_PROXY_ALLOWED_ORIGINS)
+  return {
+    allowedHosts: allowedHosts.length > 0 ? allowedHosts : DEFAULT_ALLOWED_HOSTS,
+    maxBytes: Number.isFinite(maxBytes) && maxBytes > 0 ? maxBytes : DEFAULT_MAX_BYTES,
+    allowedOrigins: allowedOrigins.length > 0 ? allowedOrigins : ["*"],
+  }
+}
+
+export const isHostAllowed = (hostname: string, allowedHosts: string[]) => {
+  const host = hostname.toLowerCase()
+  return allowedHosts.some((pattern) => {
+    if (pattern === "*") {
+      return true
+    }
+    if (pattern.startsWith("*.")) {
+      return host.endsWith(pattern.slice(1))
+    }
+    return host === pattern
+  })
+}
+
+// Sent as X-PDF-Proxy-Error so the app can tell the proxy's own refusals
+// apart from errors it relays from the upstream server.
+type ProxyErrorCode =
+  | "invalid-request"
+  | "host-not-allowed"
+  | "too-large"
+  | "too-many-redirects"
+  | "upstream-status"
+  | "upstream-failed"
+  | "timeout"
+
+class ProxyError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ProxyErrorCode,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]) => {
+  const origin = req.headers.origin
+  if (allowedOrigins.includes("*")) {
+    res.setHeader("Access-Control-Allow-Origin", "*")
+  } else if (origin && allowedOrigins.includes(origin.toLowerCase())) {
+    res.setHeader("Access-Control-Allow-Origin", origin)
+    res.setHeader("Vary", "Origin")
+  }
+  res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", FORWARDED_REQUEST_HEADERS.join(", "))
+  res.setHeader("Access-Control-Expose-Headers", [...FORWARDED_HEADERS, "x-pdf-proxy-error"].join(", "))
+}
+
+const parseTarget = (req: IncomingMessage, allowedHosts: string[]) => {
+  const requestUrl = new URL(req.url ?? "/", "http://localhost")
+  const target = requestUrl.searchParams.get("url")
+  if (!target) {
+    throw new ProxyError(400, "invalid-request", "Missing url parameter")
+  }
+  return checkTarget(target, allowedHosts)
+}
+
+const checkTarget = (target: string, allowedHosts: string[]) => {
+  let url: URL
+  try {
+    url = new URL(target)
+  } catch {
+    throw new ProxyError(400, "invalid-request", "Invalid url parameter")
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new ProxyError(400, "invalid-request", `Unsupported protocol ${url.protocol}`)
+  }
+  if (!isHostAllowed(url.hostname, allowedHosts)) {
+    throw new ProxyError(403, "host-not-allowed", `Host ${url.hostname} is not allowed`)
+  }
+  return url
+}
+
+const upstreamHeaders = (req: IncomingMessage) => {
+  // Compressed bodies would not match the Content-Length and ranges we relay.
+  const headers = new Headers({ "accept-encoding": "identity" })
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name]
+    if (typeof value === "string") {
+      headers.set(name, value)
+    }
+  }
+  return headers
+}
+
+// Size of the whole document, also when only a range of it was requested.
+const documentSize = (headers: Headers) => {
+  const total = headers.get("content-range")?.match(/\/(\d+)$/)?.[1]
+  return Number(total ?? headers.get("content-length"))
+}
+
+// Redirects are followed by hand so every hop is checked against the allowlist.
+const fetchUpstream = async (req: IncomingMessage, url: URL, options: PDFProxyOptions, signal: AbortSignal) => {
+  const headers = upstreamHeaders(req)
+  let current = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetch(current, { method: req.method, headers, redirect: "manual", signal })
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+    await response.body?.cancel()
+    current = checkTarget(new URL(location, current).href, options.allowedHosts)
+  }
+  throw new ProxyError(508, "too-many-redirects", "Too many redirects")
+}
+
+const relayBody = async (body: ReadableStream<Uint8Array>, res: ServerResponse, maxBytes: number) => {
+  const reader = body.getReader()
+  let received = 0
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      received += value.byteLength
+      if (received > maxBytes) {
+        // Once headers are out, cutting the connection is the only signal left.
+        await reader.cancel()
+        throw new ProxyError(413, "too-large", `Document is larger than ${maxBytes} bytes`)
+      }
+      if (!res.write(value)) {
+        await once(res, "drain")
+      }
+    }
+    res.end()
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+const sendError = (res: ServerResponse, status: number, code: ProxyErrorCode, message: string) => {
+  if (res.headersSent || res.destroyed) {
+    res.destroy()
+    return
+  }
+  res.statusCode = status
+  res.setHeader("Content-Type", "text/plain; charset=utf-8")
+  res.setHeader("X-PDF-Proxy-Error", code)
+  res.end(message)
+}
+
+/**
+ * Connect-style handler that relays a PDF from `?url=` with CORS headers,
+ * including Range requests when the upstream server supports them.
+ * Used both as Vite middleware and by the standalone server.
+ */
+export const createPDFProxyHandler = (options: PDFProxyOptions) => {
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    setCorsHeaders(req, res, options.allowedOrigins)
+
+    if (req.method === "OPTIONS") {
+      res.statusCode = 204
+      res.end()
+      return
+    }
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.setHeader("Allow", "GET, HEAD, OPTIONS")
+      sendError(res, 405, "invalid-request", "Method not allowed")
+      return
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS)
+    // Stop pulling from upstream as soon as the client goes away.
+    res.on("close", () => controller.abort())
+
+    try {
+      const target = parseTarget(req, options.allowedHosts)
+      const upstream = await fetchUpstream(req, target, options, controller.signal)
+      clearTimeout(timeout)
+
+      if (upstream.status === 304) {
+        await upstream.body?.cancel()
+        for (const header of ["etag", "last-modified"]) {
+          const value = upstream.headers.get(header)
+          if (value) {
+            res.setHeader(header, value)
+          }
+        }
+        res.statusCode = 304
+        res.end()
+        return
+      }
+      if (!upstream.ok) {
+        await upstream.body?.cancel()
+        throw new ProxyError(upstream.status, "upstream-status", `Upstream responded with ${upstream.status}`)
+      }
+      if (documentSize(upstream.headers) > options.maxBytes) {
+        await upstream.body?.cancel()
+        throw new ProxyError(413, "too-large", `Document is larger than ${options.maxBytes} bytes`)
+      }
+
+      // 206 for range requests, 200 otherwise.
+      res.statusCode = upstream.status
+      for (const header of FORWARDED_HEADERS) {
+        const value = upstream.headers.get(header)
+        if (value) {
+          res.setHeader(header, value)
+        }
+      }
+      if (req.method === "HEAD" || !upstream.body) {
+        await upstream.body?.cancel()
+        res.end()
+        return
+      }
+      await relayBody(upstream.body, res, options.maxBytes)
+    } catch (error) {
+      if (error instanceof ProxyError) {
+        sendError(res, error.status, error.code, error.message)
+      } else if (controller.signal.aborted && !res.writableEnded) {
+        sendError(res, 504, "timeout", "Upstream request timed out")
+      } else {
+        sendError(res, 502, "upstream-failed", error instanceof Error ? error.message : "Upstream request failed")
+      }
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+}
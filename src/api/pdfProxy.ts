@@ -1,34 +1,325 @@
-export const fetchPDFThroughProxy = async (url: string): Promise<Uint8Array> => {
+import { getCachedDocument, putCachedDocument, type CacheValidators } from '@/lib/pdfCache';
+import { looksLikePDF, PDFLoadError } from '@/lib/pdfErrors';
+
+// Served by the Vite dev server or `npm run proxy` (see server/pdfProxy.ts).
+const DEFAULT_PROXY_URL = '/api/pdf-proxy';
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface DownloadProgress {
+  loaded: number;
+  // Null when the server doesn't send a Content-Length.
+  total: number | null;
+}
+
+export interface PDFFetch {
+  promise: Promise<Uint8Array>;
+  signal: AbortSignal;
+  cancel: () => void;
+  onProgress: (listener: (progress: DownloadProgress) => void) => () => void;
+}
+
+type ProgressCallback = (progress: DownloadProgress) => void;
+
+// `data` is null when the server answered 304 Not Modified.
+interface FetchResult {
+  data: Uint8Array | null;
+  validators: CacheValidators;
+}
+
+// Network failures and 5xx responses; turned into a PDFLoadError once the
+// retries run out.
+class RetryableError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null = null
+  ) {
+    super(message);
+  }
+}
+
+export const getProxyUrl = (url: string) => {
+  const base = import.meta.env.VITE_PDF_PROXY_URL || DEFAULT_PROXY_URL;
+  const separator = base.includes('?') ? '&' : '?';
+  return `${base}${separator}url=${encodeURIComponent(url)}`;
+};
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+
+const readBody = async (response: Response, onProgress: ProgressCallback): Promise<Uint8Array> => {
+  const header = Number(response.headers.get('content-length'));
+  const total = header > 0 ? header : null;
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    onProgress({ loaded: data.byteLength, total: data.byteLength });
+    return data;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress({ loaded, total });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(value);
+    loaded += value.byteLength;
+    onProgress({ loaded, total });
+  }
+
+  const data = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+};
+
+const checkPDFData = (data: Uint8Array, response: Response) => {
+  if (data.byteLength === 0) {
+    throw new PDFLoadError('not-pdf', 'Received an empty response');
+  }
+  if (!looksLikePDF(data)) {
+    const contentType = response.headers.get('content-type') ?? 'unknown type';
+    throw new PDFLoadError('not-pdf', `Received ${contentType} instead of a PDF`);
+  }
+  return data;
+};
+
+const conditionalHeaders = (cached: CacheValidators | null) => {
+  const headers = new Headers();
+  if (cached?.etag) {
+    headers.set('If-None-Match', cached.etag);
+  }
+  if (cached?.lastModified) {
+    headers.set('If-Modified-Since', cached.lastModified);
+  }
+  return headers;
+};
+
+const readValidators = (response: Response): CacheValidators => ({
+  etag: response.headers.get('etag'),
+  lastModified: response.headers.get('last-modified'),
+});
+
+const fetchOnce = async (
+  url: string,
+  signal: AbortSignal,
+  onProgress: ProgressCallback,
+  cached: CacheValidators | null
+): Promise<FetchResult> => {
+  let response: Response;
+  try {
+    response = await fetch(getProxyUrl(url), { signal, headers: conditionalHeaders(cached) });
+  } catch (error) {
+    if (signal.aborted) {
+      throw error;
+    }
+    throw new RetryableError(error instanceof Error ? error.message : 'Network error');
+  }
+
+  if (response.status === 304) {
+    return { data: null, validators: readValidators(response) };
+  }
+  if (!response.ok) {
+    // The proxy explains refusals (host not allowed, too large) in the body.
+    const reason = await response.text().catch(() => '');
+    const message = `HTTP error! status: ${response.status}${reason ? ` (${reason})` : ''}`;
+    if (response.headers.get('x-pdf-proxy-error') === 'host-not-allowed') {
+      // The host refused the browser and the proxy may not fetch from it either.
+      throw new PDFLoadError('cors', message, { status: response.status });
+    }
+    if (response.status >= 500) {
+      throw new RetryableError(message, response.status);
+    }
+    throw new PDFLoadError('http', message, { status: response.status });
+  }
+
+  let data: Uint8Array;
+  try {
+    data = await readBody(response, onProgress);
+  } catch (error) {
+    if (signal.aborted) {
+      throw error;
+    }
+    // The connection dropped mid-body.
+    throw new RetryableError(error instanceof Error ? error.message : 'Network error');
+  }
+  return { data: checkPDFData(data, response), validators: readValidators(response) };
+};
+
+/**
+ * Fetches through the proxy, retrying network errors and 5xx responses with
+ * exponential backoff.
+ */
+export const fetchPDFThroughProxy = async (
+  url: string,
+  signal: AbortSignal,
+  onProgress: ProgressCallback = () => {},
+  cached: CacheValidators | null = null
+): Promise<FetchResult> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, signal, onProgress, cached);
+    } catch (error) {
+      if (signal.aborted) {
+        throw error;
+      }
+      if (!(error instanceof RetryableError)) {
+        throw error;
+      }
+      if (attempt < MAX_RETRIES) {
+        await wait(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+        continue;
+      }
+      const message = `${error.message} (after ${attempt + 1} attempts)`;
+      throw error.status
+        ? new PDFLoadError('http', message, { status: error.status })
+        : new PDFLoadError('network', message);
+    }
+  }
+};
+
+// Makes a simple CORS request: conditional headers aren't CORS-safelisted and
+// would need a preflight that hosts allowing only simple requests refuse.
+const fetchDirectOrThroughProxy = async (
+  url: string,
+  signal: AbortSignal,
+  onProgress: ProgressCallback
+): Promise<FetchResult> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    // fetch only rejects on network errors, which is also how CORS refusals
+    // surface; an HTTP error status would come back the same via the proxy.
+    if (signal.aborted) {
+      throw error;
+    }
+    return fetchPDFThroughProxy(url, signal, onProgress);
+  }
+
+  if (!response.ok) {
+    throw new PDFLoadError('http', `HTTP error! status: ${response.status}`, { status: response.status });
+  }
+  let data: Uint8Array;
+  try {
+    data = await readBody(response, onProgress);
+  } catch (error) {
+    if (signal.aborted) {
+      throw error;
+    }
+    throw new PDFLoadError('network', error instanceof Error ? error.message : 'Network error');
+  }
+  return { data: checkPDFData(data, response), validators: readValidators(response) };
+};
+
+/**
+ * Asks whether a cached copy is still current. Only the proxy sends the
+ * conditional request; for hosts it may not fetch from, the document is
+ * downloaded again directly.
+ */
+const revalidateCachedPDF = async (
+  url: string,
+  signal: AbortSignal,
+  onProgress: ProgressCallback,
+  cached: CacheValidators
+): Promise<FetchResult> => {
+  try {
+    return await fetchPDFThroughProxy(url, signal, onProgress, cached);
+  } catch (error) {
+    if (error instanceof PDFLoadError && error.kind === 'cors') {
+      return fetchDirectOrThroughProxy(url, signal, onProgress);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Serves the cached copy when the server says it is still current, or when
+ * the server can't be reached at all, and caches anything new.
+ */
+const fetchWithCache = async (url: string, signal: AbortSignal, onProgress: ProgressCallback) => {
+  const cached = await getCachedDocument(url).catch(() => null);
+  if (cached && !navigator.onLine) {
+    onProgress({ loaded: cached.info.size, total: cached.info.size });
+    return cached.data;
+  }
+  let result: FetchResult;
   try {
-    // Use a more reliable CORS proxy service
-    const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-    
-    const response = await fetch(proxyUrl);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    
-    // Verify we got binary data
-    const contentType = response.headers.get('content-type');
-    if (!contentType?.includes('application/pdf') && !contentType?.includes('application/octet-stream')) {
-      console.warn('Warning: Response may not be a PDF. Content-Type:', contentType);
-    }
-    
-    const arrayBuffer = await response.arrayBuffer();
-    if (!arrayBuffer || arrayBuffer.byteLength === 0) {
-      throw new Error('Received empty response from proxy');
-    }
-    
-    return new Uint8Array(arrayBuffer);
+    result = cached
+      ? await revalidateCachedPDF(url, signal, onProgress, cached.info)
+      : await fetchDirectOrThroughProxy(url, signal, onProgress);
   } catch (error) {
-    // Enhance error message
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred while fetching PDF';
-    console.error('PDF Proxy Error:', {
-      message: errorMessage,
-      url,
-      error
-    });
-    throw new Error(`Failed to fetch PDF: ${errorMessage}`);
-  }
-};
\ No newline at end of file
+    if (cached && !signal.aborted) {
+      console.warn('Serving cached PDF, the server could not be reached:', url, error);
+      return cached.data;
+    }
+    throw error;
+  }
+
+  if (!result.data) {
+    if (!cached) {
+      throw new PDFLoadError('http', 'Server answered 304 without a cached copy', { status: 304 });
+    }
+    onProgress({ loaded: cached.info.size, total: cached.info.size });
+    return cached.data;
+  }
+  putCachedDocument(url, result.data, result.validators).catch((error) => {
+    console.warn('Could not cache PDF:', url, error);
+  });
+  return result.data;
+};
+
+/**
+ * Stores a document that pdf.js streamed itself. Its validators come from a
+ * HEAD request through the proxy, since pdf.js doesn't expose the headers.
+ */
+export const cacheStreamedPDF = async (url: string, data: Uint8Array) => {
+  let validators: CacheValidators = { etag: null, lastModified: null };
+  try {
+    const response = await fetch(getProxyUrl(url), { method: 'HEAD' });
+    if (response.ok) {
+      validators = readValidators(response);
+    }
+  } catch {
+    // Without validators the copy is simply refetched on the next online open.
+  }
+  await putCachedDocument(url, data, validators);
+};
+
+/**
+ * Starts fetching the PDF straight from its host when the host allows
+ * cross-origin reads, and through the proxy when it doesn't. Checks the
+ * offline cache first and revalidates it with a conditional request.
+ */
+export const fetchPDF = (url: string): PDFFetch => {
+  const controller = new AbortController();
+  const listeners = new Set<ProgressCallback>();
+  const emit = (progress: DownloadProgress) => listeners.forEach((listener) => listener(progress));
+
+  return {
+    promise: fetchWithCache(url, controller.signal, emit),
+    signal: controller.signal,
+    cancel: () => controller.abort(),
+    onProgress: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -1,55 +1,233 @@
 "use client"
 
-import { useState } from "react"
-import { Download, ZoomIn, ZoomOut, Maximize, Minimize, ChevronLeft, ChevronRight } from "lucide-react"
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react"
+import {
+  Maximize,
+  Minimize,
+  ChevronLeft,
+  ChevronRight,
+  PanelLeft,
+  GalleryVertical,
+  ScrollText,
+  FileText,
+  File,
+  Columns2,
+  BookOpen,
+  Printer,
+  FolderOpen,
+  Settings,
+  Highlighter,
+  MessageSquarePlus,
+  MessagesSquare,
+  PenTool,
+} from "lucide-react"
+import { Link } from "react-router-dom"
 import { Button } from "@/components/ui/button"
+import { SidebarProvider } from "@/components/ui/sidebar"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
 import { useToast } from "@/hooks/use-toast"
 import { cn } from "@/lib/utils"
-import { Document, Page, pdfjs } from "react-pdf"
-import { fetchPDFThroughProxy } from "@/api/pdfProxy"
+import { Document, Page, pdfjs, type DocumentProps, type PageProps } from "react-pdf"
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import { usePDFLoader } from "@/hooks/use-pdf-loader"
+import { usePDFSearch } from "@/hooks/use-pdf-search"
+import { findActiveOutlineNode, usePDFOutline, type OutlineNode } from "@/hooks/use-pdf-outline"
+import { getDisplaySize, getPageSize, usePageSizes } from "@/hooks/use-page-sizes"
+import { getExtraRotation, normalizeRotation, usePageRotation } from "@/hooks/use-page-rotation"
+import { useGestureZoom } from "@/hooks/use-gesture-zoom"
+import { useDocumentHash } from "@/hooks/use-document-hash"
+import { useAnnotationActions } from "@/hooks/use-annotation-actions"
+import { useCommentNotes } from "@/hooks/use-comment-notes"
+import { useDrawingTools } from "@/hooks/use-drawing-tools"
+import { useLatest } from "@/hooks/use-latest"
+import { highlightTextItem } from "@/lib/pdfSearch"
+import { getSelectedPDFText } from "@/lib/textSelection"
+import { getAnnotationTop, type Annotation, type Drawing, type NoteAnnotation, type PageMark } from "@/lib/annotations"
+import { applyPageRotations, downloadPDF, printPDF } from "@/lib/pdfExport"
+import { writeAnnotations } from "@/lib/pdfAnnotations"
+import { getCommentAuthor } from "@/lib/commentAuthor"
+import { clampZoom, fitZoom, formatZoom, stepZoom, type Size, type ZoomMode } from "@/lib/zoom"
+import { findSpreadIndex, formatSpreadLabel, getSpreads, type SpreadMode } from "@/lib/spreads"
+import { destinationOffset, type DestinationTarget, type ExplicitDest } from "@/lib/pdfDestinations"
+import { getSourceKey, getSourceName, isWebURL, readPDFFile, SAMPLE_PDF_URL, type PDFSource } from "@/lib/pdfSource"
+import { PDF_OPTIONS } from "@/lib/pdfjs"
+import { PDFLoadError, toPDFLoadError } from "@/lib/pdfErrors"
+import type { ViewParams } from "@/lib/viewParams"
+import { forgetSessionPassword, getSessionPassword, rememberSessionPassword } from "@/lib/pdfPasswords"
+import SearchBar from "@/components/pdf/SearchBar"
+import SearchResults from "@/components/pdf/SearchResults"
+import ExternalLinkDialog from "@/components/pdf/ExternalLinkDialog"
+import OutlineSidebar from "@/components/pdf/OutlineSidebar"
+import ThumbnailRail from "@/components/pdf/ThumbnailRail"
+import ContinuousPages from "@/components/pdf/ContinuousPages"
+import FileDropZone from "@/components/pdf/FileDropZone"
+import LoadProgress from "@/components/pdf/LoadProgress"
+import PasswordDialog from "@/components/pdf/PasswordDialog"
+import LoadErrorPanel from "@/components/pdf/LoadErrorPanel"
+import ZoomControl from "@/components/pdf/ZoomControl"
+import RotationMenu from "@/components/pdf/RotationMenu"
+import MarkupLayer from "@/components/pdf/MarkupLayer"
+import MarkupToolbar from "@/components/pdf/MarkupToolbar"
+import AnnotationsPanel from "@/components/pdf/AnnotationsPanel"
+import NoteLayer from "@/components/pdf/NoteLayer"
+import DrawingLayer from "@/components/pdf/DrawingLayer"
+import DrawingToolbar from "@/components/pdf/DrawingToolbar"
+import CommentThread from "@/components/pdf/CommentThread"
+import CommentsPanel from "@/components/pdf/CommentsPanel"
+import DownloadMenu from "@/components/pdf/DownloadMenu"
+import "react-pdf/dist/Page/TextLayer.css"
+import "react-pdf/dist/Page/AnnotationLayer.css"
 
-pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`
+type ScrollMode = "single" | "continuous"
 
-interface PageDetails {
-  numPages: number | null
+const NO_MARKUP: PageMark[] = []
+const NO_NOTES: NoteAnnotation[] = []
+const NO_DRAWINGS: Drawing[] = []
+
+interface PasswordRequest {
+  isIncorrect: boolean
+  respond: (password: string) => void
 }
 
 interface PDFViewerProps {
   url?: string
+  // Page, zoom and search to show. Applied on mount and whenever they change,
+  // e.g. when a shared link is opened.
+  view?: ViewParams
+  // Called as the user navigates, so the state can be written into the URL.
+  // `documentUrl` is null for local files, which can't be linked to.
+  onViewChange?: (view: ViewParams, documentUrl: string | null) => void
+  // Called when the viewer switches to another document, e.g. a dropped file.
+  onSourceChange?: (source: PDFSource) => void
+  // Several viewers can be mounted at once, e.g. one per tab. Only the active
+  // one takes keyboard shortcuts and prompts for passwords.
+  isActive?: boolean
 }
 
 const PDFViewer = ({ 
-  url = "https://www.aeee.in/wp-content/uploads/2020/08/Sample-pdf.pdf" 
+  url = SAMPLE_PDF_URL,
+  view,
+  onViewChange,
+  onSourceChange,
+  isActive = true,
 }: PDFViewerProps) => {
   const [isLoading, setIsLoading] = useState(true)
-  const [zoomLevel, setZoomLevel] = useState(100)
+  const [zoomLevel, setZoomLevel] = useState(() => view?.zoom ?? 100)
+  const [zoomMode, setZoomMode] = useState<ZoomMode>(() => view?.zoomMode ?? "custom")
+  const [containerSize, setContainerSize] = useState<Size>({ width: 0, height: 0 })
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [numPages, setNumPages] = useState<number | null>(null)
   const [pageNumber, setPageNumber] = useState(1)
-  const [pdfData, setPdfData] = useState<Uint8Array | null>(null)
-  const [error, setError] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<PDFLoadError | null>(null)
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null)
+  const [pendingExternalLink, setPendingExternalLink] = useState<string | null>(null)
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false)
+  const [isThumbnailRailOpen, setIsThumbnailRailOpen] = useState(false)
+  const [scrollMode, setScrollMode] = useState<ScrollMode>("single")
+  const [spreadMode, setSpreadMode] = useState<SpreadMode>("single")
+  const [pageContainer, setPageContainer] = useState<HTMLDivElement | null>(null)
+  const [localFile, setLocalFile] = useState<PDFSource | null>(null)
+  const [passwordRequest, setPasswordRequest] = useState<PasswordRequest | null>(null)
+  const [isAnnotationsOpen, setIsAnnotationsOpen] = useState(false)
+  const [selectionAnchor, setSelectionAnchor] = useState<{ top: number; left: number } | null>(null)
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const pageContainerRef = useRef<HTMLDivElement | null>(null)
+  const renderedPagesRef = useRef<Map<number, PDFPageProxy>>(new Map())
+  const pendingDestinationRef = useRef<DestinationTarget | null>(null)
+  const pageFromScrollRef = useRef<number | null>(null)
+  const scrolledMatchRef = useRef<string | null>(null)
+  const zoomLevelRef = useRef(zoomLevel)
+  const zoomAnchorRef = useRef<{ scrollLeft: number; scrollTop: number } | null>(null)
+  // Kept while the viewer is hidden, which resets the container's scroll offset.
+  const savedScrollRef = useRef<{ scrollLeft: number; scrollTop: number } | null>(null)
+  const isActiveRef = useRef(isActive)
+  // Saved only once the password has actually opened the document.
+  const passwordToRememberRef = useRef<string | null>(null)
+  const search = usePDFSearch(pdfDocument)
+  const { activeMatch, matches, pageTexts } = search
+  const { outline, isLoading: isOutlineLoading } = usePDFOutline(pdfDocument)
+  const activeOutlineNode = findActiveOutlineNode(outline, pageNumber)
+  const pageSizes = usePageSizes(pdfDocument)
+  const documentHash = useDocumentHash(pdfDocument)
+  const source = useMemo<PDFSource>(() => localFile ?? { kind: "url", url }, [localFile, url])
+  const sourceKey = getSourceKey(source)
+  const loader = usePDFLoader(source)
+  const { file: documentFile, error: fetchError, retryAfterError } = loader
+  const { rotation, rotatePage, rotateDocument, resetRotation } = usePageRotation(sourceKey)
+  const displaySizes = useMemo(
+    () =>
+      pageSizes.map((size, index) =>
+        getDisplaySize(size, normalizeRotation(size.rotate + getExtraRotation(rotation, index + 1)))
+      ),
+    [pageSizes, rotation]
+  )
+  const spreads = useMemo(() => getSpreads(numPages ?? 0, spreadMode), [numPages, spreadMode])
+  const spreadIndex = findSpreadIndex(spreads, pageNumber)
+  const currentSpread = spreads[spreadIndex]
   const { toast } = useToast()
 
-  const loadPDF = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      const data = await fetchPDFThroughProxy(url);
-      setPdfData(data);
-    } catch (err) {
-      console.error("Error loading PDF:", err);
-      setError(err instanceof Error ? err.message : "Failed to load PDF");
-      toast({
-        title: "Error Loading PDF",
-        description: err instanceof Error ? err.message : "Failed to load the PDF file",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
+  // The page an element is on and the viewport it is shown with, for turning
+  // screen positions into PDF coordinates.
+  const getPageAt = (element: Element | null) => {
+    const pageElement = element?.closest<HTMLElement>(".react-pdf__Page")
+    const pageNumberAt = Number(pageElement?.dataset.pageNumber)
+    const page = renderedPagesRef.current.get(pageNumberAt)
+    if (!pageElement || !page) {
+      return null
     }
-  };
+    const viewport = page.getViewport({ scale: zoomLevel / 100, rotation: pageRotation(pageNumberAt) ?? page.rotate })
+    return { page, pageNumber: pageNumberAt, bounds: pageElement.getBoundingClientRect(), viewport }
+  }
+
+  const {
+    annotations,
+    isReady: areAnnotationsReady,
+    addAnnotations,
+    updateAnnotation,
+    removeAnnotation,
+    removeAnnotations,
+    markups,
+    notes,
+    markupsByPage,
+    notesByPage,
+    drawingsByPage,
+    saveAnnotations,
+    markSelection,
+    importAnnotations,
+    exportAnnotationFile,
+    importAnnotationFile,
+  } = useAnnotationActions({ pdf: pdfDocument, documentHash, fileName: getSourceName(source) || undefined, getPageAt })
+  const {
+    isCommentMode,
+    setIsCommentMode,
+    openNoteId,
+    openNote,
+    placeNote,
+    onNoteOpenChange,
+    postComment,
+    setNoteStatus,
+    deleteNote,
+  } = useCommentNotes({ notes, addAnnotations, updateAnnotation, removeAnnotation, saveAnnotations, getPageAt })
+  const drawingTools = useDrawingTools(documentHash, { isActive, addAnnotations, removeAnnotations, saveAnnotations })
+
+  useEffect(() => {
+    if (fetchError) {
+      setIsLoading(false)
+      setLoadError(fetchError)
+    }
+  }, [fetchError])
 
-  const onDocumentLoadSuccess = ({ numPages }: PageDetails) => {
+  const onDocumentLoadSuccess = (pdf: PDFDocumentProxy) => {
+    const { numPages } = pdf
+    loader.onLoadSuccess(pdf)
+    if (passwordToRememberRef.current) {
+      rememberSessionPassword(sourceKey, passwordToRememberRef.current)
+      passwordToRememberRef.current = null
+    }
+    setPdfDocument(pdf)
     setNumPages(numPages)
     setIsLoading(false)
     toast({
@@ -58,63 +236,516 @@ const PDFViewer = ({
     })
   }
 
+  const handleReload = (startAt?: "direct" | "proxy") => {
+    setLoadError(null)
+    setIsLoading(true)
+    loader.reload(startAt)
+  }
+
+  // Only web links are handed to the browser; anything else could run script.
+  const canOpenOriginal = source.kind === "url" && isWebURL(source.url)
+  const openOriginal = () => {
+    if (source.kind === "url" && isWebURL(source.url)) {
+      window.open(source.url, "_blank", "noopener,noreferrer")
+    }
+  }
+
+  // pdf.js asks again with INCORRECT_PASSWORD after a wrong answer, including
+  // a remembered password that no longer works.
+  const onPassword: DocumentProps["onPassword"] = (respond, reason) => {
+    const isIncorrect = reason === pdfjs.PasswordResponses.INCORRECT_PASSWORD
+    if (isIncorrect) {
+      forgetSessionPassword(sourceKey)
+    } else {
+      const remembered = getSessionPassword(sourceKey)
+      if (remembered) {
+        respond(remembered)
+        return
+      }
+    }
+    setPasswordRequest({ isIncorrect, respond })
+  }
+
+  const submitPassword = (password: string, remember: boolean) => {
+    passwordToRememberRef.current = remember ? password : null
+    passwordRequest?.respond(password)
+    setPasswordRequest(null)
+  }
+
+  // pdf.js has no way to decline a password prompt, so stop the load instead.
+  const declinePassword = () => {
+    setPasswordRequest(null)
+    setIsLoading(false)
+    setLoadError(new PDFLoadError("password", "No password was entered"))
+    loader.cancel()
+  }
+
   const onDocumentLoadError = (error: Error) => {
+    if (retryAfterError(error)) {
+      return
+    }
     setIsLoading(false)
-    setError(error.message)
-    toast({
-      title: "Error Loading PDF",
-      description: `Failed to load the PDF file: ${error.message}`,
-      variant: "destructive",
-    })
-    console.error("Error loading PDF:", error)
+    setLoadError(toPDFLoadError(error))
+  }
+
+  // Everything below belongs to the previous document.
+  useEffect(() => {
+    setPdfDocument(null)
+    setNumPages(null)
+    setPageNumber(1)
+    setLoadError(null)
+    setIsLoading(true)
+    setPasswordRequest(null)
+    passwordToRememberRef.current = null
+    renderedPagesRef.current.clear()
+    pendingDestinationRef.current = null
+    pageFromScrollRef.current = null
+    savedScrollRef.current = null
+  }, [sourceKey])
+
+  const onSourceChangeRef = useLatest(onSourceChange)
+  // Reported once per document, not whenever the callback changes.
+  useEffect(() => {
+    onSourceChangeRef.current?.(source)
+  }, [source, onSourceChangeRef])
+
+  const openFile = async (file: File) => {
+    try {
+      setLocalFile(await readPDFFile(file))
+    } catch (err) {
+      toast({
+        title: "Cannot open file",
+        description: err instanceof Error ? err.message : "Failed to read the file",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const onFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const [file] = Array.from(event.target.files ?? [])
+    // Clear the input so picking the same file again still fires a change.
+    event.target.value = ""
+    if (file) {
+      void openFile(file)
+    }
   }
 
-  const handleDownload = async () => {
+  // The exported file carries the user's rotation as real /Rotate values,
+  // and optionally the annotations, both in a revision appended to the original.
+  const exportPDF = async ({ withAnnotations = false } = {}) => {
+    if (!pdfDocument) {
+      throw new Error("The document has not finished loading")
+    }
+    // Waits for any ranges pdf.js hasn't streamed yet, without refetching the rest.
+    const data = await pdfDocument.getData();
+    const extraRotation = (page: number) => getExtraRotation(rotation, page);
+    return withAnnotations
+      ? writeAnnotations(data, annotations, extraRotation)
+      : applyPageRotations(data, extraRotation);
+  };
+
+  const handleDownload = async ({ withAnnotations = false } = {}) => {
     try {
-      const data = await fetchPDFThroughProxy(url);
-      const blob = new Blob([data], { type: "application/pdf" });
-      const downloadUrl = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = downloadUrl;
-      link.download = "document.pdf";
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(downloadUrl);
+      const data = await exportPDF({ withAnnotations });
+      downloadPDF(data, getSourceName(source) || "document.pdf");
 
       toast({
         title: "Download started",
-        description: "Your PDF is being downloaded",
+        description: withAnnotations
+          ? "Your PDF is being downloaded with its annotations"
+          : "Your PDF is being downloaded",
       });
     } catch (err) {
       console.error("Error downloading PDF:", err);
       toast({
         title: "Download Failed",
-        description: "Failed to download the PDF file",
+        description: err instanceof Error ? err.message : "Failed to download the PDF file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePrint = async () => {
+    try {
+      const data = await exportPDF();
+      await printPDF(data);
+    } catch (err) {
+      console.error("Error printing PDF:", err);
+      toast({
+        title: "Print Failed",
+        description: err instanceof Error ? err.message : "Failed to print the PDF file",
         variant: "destructive",
       });
     }
   };
 
+  // Absolute rotation for <Page rotate>. Undefined leaves the page at its own
+  // /Rotate, which is also the only safe choice before the page is measured.
+  const pageRotation = (pageToRotate: number) => {
+    const extra = getExtraRotation(rotation, pageToRotate)
+    const size = pageSizes[pageToRotate - 1]
+    return extra === 0 || !size ? undefined : normalizeRotation(size.rotate + extra)
+  }
+
+  const applyZoom = (nextZoom: number) => {
+    zoomLevelRef.current = nextZoom
+    setZoomLevel(nextZoom)
+  }
+
   const handleZoom = (direction: "in" | "out") => {
-    setZoomLevel((prev) => {
-      const newZoom = direction === "in" ? prev + 25 : prev - 25
-      return Math.min(Math.max(newZoom, 50), 200)
-    })
+    const nextZoom = stepZoom(zoomLevel, direction)
+    setZoomMode("custom")
+    applyZoom(nextZoom)
 
     toast({
       title: "Zoom " + direction,
-      description: `Zoom level: ${zoomLevel}%`,
+      description: `Zoom level: ${formatZoom(nextZoom)}`,
     })
   }
 
+  const handleZoomChange = (nextZoom: number) => {
+    setZoomMode("custom")
+    applyZoom(clampZoom(nextZoom))
+  }
+
+  // Zooms by `factor` while keeping the content under the given client point
+  // in place, the way map and image viewers do.
+  const zoomAt = (factor: number, clientX: number, clientY: number) => {
+    const container = pageContainerRef.current
+    const previousZoom = zoomLevelRef.current
+    const nextZoom = clampZoom(previousZoom * factor)
+    if (!container || nextZoom === previousZoom) {
+      return
+    }
+    const rect = container.getBoundingClientRect()
+    const offsetX = clientX - rect.left
+    const offsetY = clientY - rect.top
+    // Several wheel events can arrive before React re-renders; build on the
+    // scroll position that is still waiting to be applied.
+    const pending = zoomAnchorRef.current
+    const scrollLeft = pending?.scrollLeft ?? container.scrollLeft
+    const scrollTop = pending?.scrollTop ?? container.scrollTop
+    const ratio = nextZoom / previousZoom
+    zoomAnchorRef.current = {
+      scrollLeft: (scrollLeft + offsetX) * ratio - offsetX,
+      scrollTop: (scrollTop + offsetY) * ratio - offsetY,
+    }
+    setZoomMode("custom")
+    applyZoom(nextZoom)
+  }
+
+  useGestureZoom(pageContainer, zoomAt)
+
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current
+    const container = pageContainerRef.current
+    if (!anchor || !container) {
+      return
+    }
+    zoomAnchorRef.current = null
+    container.scrollLeft = anchor.scrollLeft
+    container.scrollTop = anchor.scrollTop
+  }, [zoomLevel])
+
+  useEffect(() => {
+    if (!pageContainer) {
+      return
+    }
+    const observer = new ResizeObserver(() => {
+      setContainerSize({ width: pageContainer.clientWidth, height: pageContainer.clientHeight })
+    })
+    observer.observe(pageContainer)
+    return () => observer.disconnect()
+  }, [pageContainer])
+
+  const spreadPageSizes = useMemo(
+    () => (currentSpread ?? [pageNumber]).map((spreadPage) => getPageSize(displaySizes, spreadPage)),
+    [currentSpread, pageNumber, displaySizes]
+  )
+
+  useEffect(() => {
+    if (zoomMode === "custom") {
+      return
+    }
+    const fitted = fitZoom(zoomMode, containerSize, spreadPageSizes)
+    if (fitted !== null) {
+      applyZoom(fitted)
+    }
+  }, [zoomMode, containerSize, spreadPageSizes])
+
+  // Paging moves by whole spreads, landing on the first page of the target.
   const changePage = (offset: number) => {
-    setPageNumber((prevPageNumber) => {
-      const newPage = prevPageNumber + offset
-      return numPages ? Math.min(Math.max(1, newPage), numPages) : 1
+    if (spreads.length === 0) {
+      return
+    }
+    const target = Math.min(Math.max(spreadIndex + offset, 0), spreads.length - 1)
+    setPageNumber(spreads[target][0])
+  }
+
+  const activeMatchId = activeMatch?.id ?? null
+  const activeMatchPage = activeMatch?.pageNumber ?? null
+
+  useEffect(() => {
+    if (activeMatchPage !== null) {
+      setPageNumber(activeMatchPage)
+    }
+  }, [activeMatchId, activeMatchPage])
+
+  useEffect(() => {
+    if (!isActive) {
+      return
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "f") {
+        event.preventDefault()
+        searchInputRef.current?.focus()
+        searchInputRef.current?.select()
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [isActive])
+
+  // Places the markup toolbar over a text selection on this viewer's pages.
+  const updateSelectionAnchor = useCallback(() => {
+    const selection = window.getSelection()
+    const container = pageContainerRef.current
+    if (!selection || selection.isCollapsed || !container || !container.contains(selection.anchorNode)) {
+      setSelectionAnchor(null)
+      return
+    }
+    const rect = selection.getRangeAt(0).getBoundingClientRect()
+    setSelectionAnchor({ top: rect.top, left: rect.left + rect.width / 2 })
+  }, [])
+
+  useEffect(() => {
+    if (!isActive) {
+      setSelectionAnchor(null)
+      return
+    }
+    document.addEventListener("selectionchange", updateSelectionAnchor)
+    return () => document.removeEventListener("selectionchange", updateSelectionAnchor)
+  }, [isActive, updateSelectionAnchor])
+
+  const onPageContainerScroll = () => {
+    const container = pageContainerRef.current
+    if (container && isActiveRef.current) {
+      savedScrollRef.current = { scrollLeft: container.scrollLeft, scrollTop: container.scrollTop }
+      updateSelectionAnchor()
+    }
+  }
+
+  // Brings back the scroll position the viewer had when it was hidden.
+  useLayoutEffect(() => {
+    isActiveRef.current = isActive
+    const saved = savedScrollRef.current
+    const container = pageContainerRef.current
+    if (isActive && saved && container) {
+      container.scrollLeft = saved.scrollLeft
+      container.scrollTop = saved.scrollTop
+    }
+  }, [isActive])
+
+  const renderSearchHighlights = useCallback<NonNullable<PageProps["customTextRenderer"]>>(
+    ({ str, itemIndex, pageNumber: itemPageNumber }) =>
+      highlightTextItem(
+        str,
+        itemIndex,
+        pageTexts.get(itemPageNumber),
+        matches.filter((match) => match.pageNumber === itemPageNumber),
+        activeMatchId
+      ),
+    [pageTexts, matches, activeMatchId]
+  )
+
+  // Only jump to a match once; in continuous mode text layers keep rendering
+  // as the user scrolls and must not pull the view back.
+  const scrollToActiveMatch = () => {
+    if (!activeMatchId || scrolledMatchRef.current === activeMatchId) {
+      return
+    }
+    const hit = pageContainerRef.current?.querySelector(".pdf-search-hit--active")
+    if (hit) {
+      scrolledMatchRef.current = activeMatchId
+      hit.scrollIntoView({ block: "center", inline: "nearest" })
+    }
+  }
+
+  const handleCopy = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    const text = getSelectedPDFText(window.getSelection())
+    if (text) {
+      event.preventDefault()
+      event.clipboardData.setData("text/plain", text)
+    }
+  }
+
+  const scrollToOffset = (page: PDFPageProxy, { left, top }: DestinationTarget) => {
+    const container = pageContainerRef.current
+    const pageElement = container?.querySelector(`.react-pdf__Page[data-page-number="${page.pageNumber}"]`)
+    if (!container || !pageElement) {
+      return
+    }
+    const viewport = page.getViewport({
+      scale: zoomLevel / 100,
+      rotation: normalizeRotation(page.rotate + getExtraRotation(rotation, page.pageNumber)),
     })
+    const [x, y] = viewport.convertToViewportPoint(left ?? 0, top ?? viewport.viewBox[3])
+    const containerRect = container.getBoundingClientRect()
+    const pageRect = pageElement.getBoundingClientRect()
+    container.scrollTop += pageRect.top - containerRect.top + (top === null ? 0 : y)
+    if (left !== null) {
+      container.scrollLeft += pageRect.left - containerRect.left + x
+    }
   }
 
+  const goToDestination = (target: DestinationTarget) => {
+    const renderedPage = renderedPagesRef.current.get(target.pageNumber)
+    const isMounted = pageContainerRef.current?.querySelector(
+      `.react-pdf__Page[data-page-number="${target.pageNumber}"] canvas`
+    )
+    if (renderedPage && isMounted) {
+      scrollToOffset(renderedPage, target)
+      return
+    }
+    pendingDestinationRef.current = target
+    setPageNumber(target.pageNumber)
+  }
+
+  const onItemClick: DocumentProps["onItemClick"] = ({ dest, pageNumber: targetPage }) => {
+    const offset = Array.isArray(dest) ? destinationOffset(dest as ExplicitDest) : { left: null, top: null }
+    goToDestination({ pageNumber: targetPage, ...offset })
+  }
+
+  const onAnnotationSelect = (annotation: Annotation) => {
+    goToDestination({ pageNumber: annotation.pageNumber, left: null, top: getAnnotationTop(annotation) })
+  }
+
+  const onNoteSelect = (note: NoteAnnotation) => {
+    onAnnotationSelect(note)
+    openNote(note.id)
+  }
+
+  const renderThread = (note: NoteAnnotation) => (
+    <CommentThread
+      note={note}
+      onPost={(text, author) => postComment(note, text, author)}
+      onStatusChange={(status) => setNoteStatus(note, status)}
+      onDelete={() => deleteNote(note)}
+    />
+  )
+
+  const onOutlineSelect = (node: OutlineNode) => {
+    if (node.target) {
+      goToDestination(node.target)
+    } else if (node.url) {
+      setPendingExternalLink(node.url)
+    }
+  }
+
+  const onPageRenderSuccess = (page: PDFPageProxy) => {
+    renderedPagesRef.current.set(page.pageNumber, page)
+    const pending = pendingDestinationRef.current
+    if (pending?.pageNumber === page.pageNumber) {
+      pendingDestinationRef.current = null
+      scrollToOffset(page, pending)
+    }
+  }
+
+  // Links in the annotation layer carry their target in `href`; internal ones
+  // are routed through `onItemClick` and only ever point at "#".
+  const handleLinkClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const link = (event.target as HTMLElement).closest<HTMLAnchorElement>(".annotationLayer a[href]")
+    const href = link?.getAttribute("href")
+    if (!href || href.startsWith("#")) {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+    setPendingExternalLink(link.href)
+  }
+
+  // Form widgets are shown for reference only; the viewer never writes them back.
+  const lockFormFields = () => {
+    pageContainerRef.current
+      ?.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>(
+        ".annotationLayer input, .annotationLayer textarea, .annotationLayer select"
+      )
+      .forEach((field) => {
+        if (field instanceof HTMLSelectElement || field.type === "checkbox" || field.type === "radio") {
+          field.disabled = true
+        } else {
+          field.readOnly = true
+        }
+      })
+  }
+
+  const setPageContainerRef = useCallback((element: HTMLDivElement | null) => {
+    pageContainerRef.current = element
+    setPageContainer(element)
+  }, [])
+
+  const onVisiblePageChange = useCallback((visiblePage: number) => {
+    pageFromScrollRef.current = visiblePage
+    setPageNumber(visiblePage)
+  }, [])
+
+  // Navigation from the toolbar, thumbnails, outline or search moves the
+  // continuous view; page changes that came from scrolling do not.
+  useEffect(() => {
+    if (scrollMode !== "continuous" || pageFromScrollRef.current === pageNumber) {
+      return
+    }
+    pageFromScrollRef.current = null
+    pageContainer?.querySelector(`[data-page-slot="${pageNumber}"]`)?.scrollIntoView({ block: "start" })
+  }, [pageNumber, scrollMode, spreads, pageContainer])
+
+  const toggleScrollMode = () => {
+    pageFromScrollRef.current = null
+    setScrollMode((mode) => (mode === "single" ? "continuous" : "single"))
+  }
+
+  const changeSpreadMode = (mode: SpreadMode) => {
+    pageFromScrollRef.current = null
+    setSpreadMode(mode)
+  }
+
+  const renderPage = (pageToRender: number) => (
+    <Page
+      key={pageToRender}
+      pageNumber={pageToRender}
+      scale={zoomLevel / 100}
+      rotate={pageRotation(pageToRender)}
+      className="shadow-lg"
+      renderTextLayer
+      renderAnnotationLayer
+      renderForms
+      customTextRenderer={renderSearchHighlights}
+      onRenderSuccess={onPageRenderSuccess}
+      onRenderTextLayerSuccess={scrollToActiveMatch}
+      onRenderAnnotationLayerSuccess={lockFormFields}
+      loading={<div className="animate-pulse bg-[#2a2a2a] w-[595px] h-[842px]" />}
+    >
+      <MarkupLayer annotations={markupsByPage.get(pageToRender) ?? NO_MARKUP} />
+      <NoteLayer
+        notes={notesByPage.get(pageToRender) ?? NO_NOTES}
+        openNoteId={openNoteId}
+        onOpenChange={onNoteOpenChange}
+        renderThread={renderThread}
+      />
+      {drawingTools.isDrawingMode && areAnnotationsReady && (
+        <DrawingLayer
+          settings={drawingTools.settings}
+          drawings={drawingsByPage.get(pageToRender) ?? NO_DRAWINGS}
+          author={getCommentAuthor() || undefined}
+          onDraw={drawingTools.draw}
+          onErase={drawingTools.erase}
+        />
+      )}
+    </Page>
+  )
+
+  // The whole page goes fullscreen so dialogs and menus, which render in a
+  // portal on <body>, stay visible; only this viewer then covers the screen.
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen()
@@ -125,31 +756,180 @@ const PDFViewer = ({
     }
   }
 
+  const requestedPage = view?.page
+  const requestedZoom = view?.zoom
+  const requestedZoomMode = view?.zoomMode
+  const requestedSearch = view?.search
+  const { setQuery } = search
+
+  // The requested page can only be checked against the page count once the
+  // document has loaded, so this also runs again for every new document.
+  useEffect(() => {
+    if (requestedPage && pdfDocument) {
+      setPageNumber(Math.min(requestedPage, pdfDocument.numPages))
+    }
+  }, [requestedPage, pdfDocument])
+
+  useEffect(() => {
+    if (requestedZoomMode && requestedZoomMode !== "custom") {
+      setZoomMode(requestedZoomMode)
+    } else if (requestedZoom) {
+      setZoomMode("custom")
+      zoomLevelRef.current = requestedZoom
+      setZoomLevel(requestedZoom)
+    }
+  }, [requestedZoom, requestedZoomMode])
+
+  useEffect(() => {
+    if (requestedSearch !== undefined) {
+      setQuery(requestedSearch)
+    }
+  }, [requestedSearch, setQuery])
+
+  // Reported only for a loaded document, so the page 1 shown while loading
+  // doesn't overwrite the page a link asked for.
+  useEffect(() => {
+    if (!onViewChange || !pdfDocument) {
+      return
+    }
+    onViewChange(
+      {
+        page: pageNumber,
+        zoom: zoomMode === "custom" ? zoomLevel : undefined,
+        zoomMode,
+        search: search.query.trim() || undefined,
+      },
+      source.kind === "url" ? source.url : null
+    )
+  }, [onViewChange, pdfDocument, pageNumber, zoomLevel, zoomMode, search.query, source])
+
+  // Leaving fullscreen with Escape bypasses the toggle above.
+  useEffect(() => {
+    const onFullscreenChange = () => {
+      if (!document.fullscreenElement) {
+        setIsFullscreen(false)
+      }
+    }
+    document.addEventListener("fullscreenchange", onFullscreenChange)
+    return () => document.removeEventListener("fullscreenchange", onFullscreenChange)
+  }, [])
+
   return (
     <div className="flex flex-col items-center w-full max-w-5xl mx-auto space-y-6 p-4">
       <div
         className={cn(
           "w-full bg-[#121212] rounded-lg shadow-xl overflow-hidden transition-all duration-300",
           "hover:shadow-2xl border border-[#00ffd5]",
-          isFullscreen && "fixed inset-0 z-50 max-w-none rounded-none"
+          isFullscreen && "fixed inset-0 z-50 flex max-w-none flex-col rounded-none"
         )}
       >
-        <div className="bg-muted p-4 flex justify-between items-center">
-          <div className="flex items-center gap-4">
-            <h2 className="text-foreground font-semibold flex items-center gap-2">
-              PDF Viewer
+        {/* Wraps onto more rows rather than cutting off controls in a narrow window. */}
+        <div className="bg-muted p-4 flex flex-wrap justify-between items-center gap-2">
+          <div className="flex flex-wrap items-center gap-4">
+            <Button
+              onClick={() => setIsOutlineOpen((open) => !open)}
+              variant="ghost"
+              size="sm"
+              className={cn("text-primary hover:bg-primary/20", isOutlineOpen && "bg-primary/20")}
+              aria-label="Toggle outline"
+              aria-pressed={isOutlineOpen}
+            >
+              <PanelLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setIsThumbnailRailOpen((open) => !open)}
+              variant="ghost"
+              size="sm"
+              className={cn("text-primary hover:bg-primary/20", isThumbnailRailOpen && "bg-primary/20")}
+              aria-label="Toggle page thumbnails"
+              aria-pressed={isThumbnailRailOpen}
+            >
+              <GalleryVertical className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setIsAnnotationsOpen((open) => !open)}
+              variant="ghost"
+              size="sm"
+              className={cn("text-primary hover:bg-primary/20", isAnnotationsOpen && "bg-primary/20")}
+              aria-label="Toggle annotations"
+              aria-pressed={isAnnotationsOpen}
+            >
+              <Highlighter className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => {
+                setIsCommentMode((on) => !on)
+                drawingTools.setIsDrawingMode(false)
+              }}
+              disabled={!areAnnotationsReady}
+              variant="ghost"
+              size="sm"
+              className={cn("text-primary hover:bg-primary/20", isCommentMode && "bg-primary/20")}
+              aria-label="Add comment"
+              aria-pressed={isCommentMode}
+              title="Add comment (click on a page)"
+            >
+              <MessageSquarePlus className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => {
+                drawingTools.setIsDrawingMode((on) => !on)
+                setIsCommentMode(false)
+              }}
+              disabled={!areAnnotationsReady}
+              variant="ghost"
+              size="sm"
+              className={cn("text-primary hover:bg-primary/20", drawingTools.isDrawingMode && "bg-primary/20")}
+              aria-label="Draw"
+              aria-pressed={drawingTools.isDrawingMode}
+              title="Draw on pages"
+            >
+              <PenTool className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => setIsCommentsOpen((open) => !open)}
+              variant="ghost"
+              size="sm"
+              className={cn("text-primary hover:bg-primary/20", isCommentsOpen && "bg-primary/20")}
+              aria-label="Toggle comments"
+              aria-pressed={isCommentsOpen}
+            >
+              <MessagesSquare className="h-4 w-4" />
+            </Button>
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              variant="ghost"
+              size="sm"
+              className="text-primary hover:bg-primary/20"
+              aria-label="Open PDF file"
+              title="Open PDF file"
+            >
+              <FolderOpen className="h-4 w-4" />
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/pdf,.pdf"
+              className="hidden"
+              onChange={onFileInputChange}
+            />
+            <h2 className="text-foreground font-semibold flex items-center gap-2 min-w-0">
+              <span className="truncate max-w-[16rem]" title={getSourceName(source)}>
+                {source.kind === "file" ? source.name : "PDF Viewer"}
+              </span>
               <span className="text-xs bg-primary/20 px-2 py-1 rounded-full text-primary">
-                {zoomLevel}%
+                {formatZoom(zoomLevel)}
               </span>
             </h2>
             <div className="text-primary/80 text-sm">
-              Page {pageNumber} of {numPages}
+              {formatSpreadLabel(currentSpread, numPages)}
             </div>
           </div>
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <SearchBar ref={searchInputRef} search={search} />
             <Button
               onClick={() => changePage(-1)}
-              disabled={pageNumber <= 1}
+              disabled={spreadIndex <= 0}
               variant="ghost"
               size="sm"
               className="text-primary hover:bg-primary/20"
@@ -158,29 +938,53 @@ const PDFViewer = ({
             </Button>
             <Button
               onClick={() => changePage(1)}
-              disabled={pageNumber >= (numPages || 1)}
+              disabled={spreadIndex >= spreads.length - 1}
               variant="ghost"
               size="sm"
               className="text-primary hover:bg-primary/20"
             >
               <ChevronRight className="h-4 w-4" />
             </Button>
-            <Button
-              onClick={() => handleZoom("out")}
-              variant="ghost"
+            <ToggleGroup
+              type="single"
               size="sm"
-              className="text-primary hover:bg-primary/20"
+              value={spreadMode}
+              onValueChange={(value) => value && changeSpreadMode(value as SpreadMode)}
+              aria-label="Page layout"
             >
-              <ZoomOut className="h-4 w-4" />
-            </Button>
+              <ToggleGroupItem value="single" aria-label="Single page" title="Single page" className="text-primary">
+                <File className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="two-up" aria-label="Two-up" title="Two-up" className="text-primary">
+                <Columns2 className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="book" aria-label="Book" title="Book (cover on its own)" className="text-primary">
+                <BookOpen className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
             <Button
-              onClick={() => handleZoom("in")}
+              onClick={toggleScrollMode}
               variant="ghost"
               size="sm"
               className="text-primary hover:bg-primary/20"
+              aria-label={scrollMode === "single" ? "Switch to continuous scroll" : "Switch to single page"}
+              title={scrollMode === "single" ? "Continuous scroll" : "Single page"}
             >
-              <ZoomIn className="h-4 w-4" />
+              {scrollMode === "single" ? <ScrollText className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
             </Button>
+            <ZoomControl
+              zoomLevel={zoomLevel}
+              zoomMode={zoomMode}
+              onZoomStep={handleZoom}
+              onZoomChange={handleZoomChange}
+              onZoomModeChange={setZoomMode}
+            />
+            <RotationMenu
+              pageNumber={pageNumber}
+              onRotatePage={(delta) => rotatePage(pageNumber, delta)}
+              onRotateDocument={rotateDocument}
+              onReset={resetRotation}
+            />
             <Button
               onClick={toggleFullscreen}
               variant="ghost"
@@ -190,60 +994,181 @@ const PDFViewer = ({
               {isFullscreen ? <Minimize className="h-4 w-4" /> : <Maximize className="h-4 w-4" />}
             </Button>
             <Button
-              onClick={handleDownload}
-              variant="secondary"
+              onClick={handlePrint}
+              variant="ghost"
               size="sm"
-              className="bg-primary text-primary-foreground hover:bg-primary/90 group"
+              className="text-primary hover:bg-primary/20"
+              aria-label="Print"
             >
-              <Download className="mr-2 h-4 w-4 group-hover:animate-download-bounce" />
-              Download PDF
+              <Printer className="h-4 w-4" />
+            </Button>
+            <DownloadMenu
+              areAnnotationsReady={areAnnotationsReady}
+              onDownload={handleDownload}
+              onImportAnnotations={importAnnotations}
+              onExportAnnotationFile={exportAnnotationFile}
+              onImportAnnotationFile={importAnnotationFile}
+            />
+            <Button asChild variant="ghost" size="sm" className="text-primary hover:bg-primary/20">
+              <Link to="/settings" aria-label="Settings" title="Settings">
+                <Settings className="h-4 w-4" />
+              </Link>
             </Button>
           </div>
         </div>
+        {drawingTools.isDrawingMode && (
+          <DrawingToolbar
+            settings={drawingTools.settings}
+            onSettingsChange={drawingTools.setSettings}
+            canUndo={drawingTools.canUndo}
+            canRedo={drawingTools.canRedo}
+            onUndo={drawingTools.undo}
+            onRedo={drawingTools.redo}
+          />
+        )}
 
-        <div className="relative w-full bg-[#1a1a1a]" style={{ height: isFullscreen ? "calc(100vh - 64px)" : "70vh" }}>
-          {isLoading && (
-            <div className="absolute inset-0 flex items-center justify-center bg-[#1a1a1a]">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#00ffd5]"></div>
+        <FileDropZone
+          onFile={openFile}
+          // In fullscreen the pages take whatever height the toolbar rows leave.
+          className={cn("w-full bg-[#1a1a1a]", isFullscreen && "min-h-0 flex-1")}
+          style={isFullscreen ? undefined : { height: "70vh" }}
+        >
+          {isLoading && !loader.isCancelled && !loadError && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center bg-[#1a1a1a]">
+              <LoadProgress progress={loader.progress} onCancel={loader.cancel} />
             </div>
           )}
-          {error && (
-            <div className="absolute inset-0 flex items-center justify-center bg-[#1a1a1a]">
-              <div className="text-red-500 text-center">
-                <p className="font-semibold">Error loading PDF</p>
-                <p className="text-sm mt-2">{error}</p>
-              </div>
+          {loader.isCancelled && !loadError && (
+            <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3 bg-[#1a1a1a]">
+              <p className="text-sm text-white/70">Loading cancelled</p>
+              <Button variant="secondary" size="sm" onClick={() => handleReload()}>
+                Try again
+              </Button>
             </div>
           )}
-          <div className="w-full h-full flex items-center justify-center overflow-auto">
-            <Document
-              file={url}
-              onLoadSuccess={onDocumentLoadSuccess}
-              onLoadError={onDocumentLoadError}
-              loading={
-                <div className="flex items-center justify-center h-full">
-                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#00ffd5]"></div>
-                </div>
-              }
-              error={
-                <div className="text-red-500 p-4 text-center">
-                  <p className="font-semibold">Failed to load PDF file.</p>
-                  <p className="text-sm mt-2">Please check the URL and try again.</p>
+          {loadError && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center bg-[#1a1a1a]">
+              <LoadErrorPanel
+                error={loadError}
+                isRemote={source.kind === "url"}
+                onRetry={() => handleReload()}
+                onOpenViaProxy={() => handleReload("proxy")}
+                onOpenLocalCopy={() => fileInputRef.current?.click()}
+                onDownloadAnyway={canOpenOriginal ? openOriginal : undefined}
+              />
+            </div>
+          )}
+          <SidebarProvider
+            open={isOutlineOpen}
+            // The provider's Ctrl+B shortcut listens on window; hidden viewers ignore it.
+            onOpenChange={(open) => isActive && setIsOutlineOpen(open)}
+            className="h-full min-h-0"
+          >
+            {isOutlineOpen && (
+              <OutlineSidebar
+                outline={outline}
+                isLoading={isOutlineLoading}
+                activeId={activeOutlineNode?.id ?? null}
+                onSelect={onOutlineSelect}
+              />
+            )}
+            <ResizablePanelGroup direction="horizontal" autoSaveId="pdf-viewer-thumbnails" className="flex-1 min-w-0">
+              {isThumbnailRailOpen && pdfDocument && (
+                <>
+                  <ResizablePanel id="thumbnails" order={1} defaultSize={18} minSize={10} maxSize={35}>
+                    <ThumbnailRail
+                      pdf={pdfDocument}
+                      pageSizes={displaySizes}
+                      getRotation={pageRotation}
+                      currentPage={pageNumber}
+                      onSelect={setPageNumber}
+                    />
+                  </ResizablePanel>
+                  <ResizableHandle withHandle />
+                </>
+              )}
+              <ResizablePanel id="pages" order={2}>
+                <div
+                  ref={setPageContainerRef}
+                  onCopy={handleCopy}
+                  onScroll={onPageContainerScroll}
+                  onClickCapture={handleLinkClick}
+                  onClick={placeNote}
+                  className={cn(
+                    "h-full flex overflow-auto touch-pan-x touch-pan-y",
+                    isCommentMode && "cursor-crosshair"
+                  )}
+                >
+                  {documentFile && (
+                    <Document
+                      key={loader.generation}
+                      file={documentFile}
+                      options={PDF_OPTIONS}
+                      className="m-auto"
+                      onLoadSuccess={onDocumentLoadSuccess}
+                      onLoadError={onDocumentLoadError}
+                      onPassword={onPassword}
+                      onLoadProgress={loader.onLoadProgress}
+                      onItemClick={onItemClick}
+                      externalLinkTarget="_blank"
+                      externalLinkRel="noopener noreferrer"
+                      loading={
+                        <div className="flex items-center justify-center h-full">
+                          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#00ffd5]"></div>
+                        </div>
+                      }
+                      // Failures are shown by LoadErrorPanel above.
+                      error={null}
+                    >
+                      {scrollMode === "continuous" && numPages ? (
+                        <ContinuousPages
+                          spreads={spreads}
+                          pageSizes={displaySizes}
+                          scale={zoomLevel / 100}
+                          scrollRoot={pageContainer}
+                          renderPage={renderPage}
+                          onVisiblePageChange={onVisiblePageChange}
+                        />
+                      ) : (
+                        <div className="flex items-center justify-center gap-2">
+                          {(currentSpread ?? [pageNumber]).map(renderPage)}
+                        </div>
+                      )}
+                    </Document>
+                  )}
                 </div>
-              }
-            >
-              <Page
-                pageNumber={pageNumber}
-                scale={zoomLevel / 100}
-                className="shadow-lg"
-                renderTextLayer={false}
-                renderAnnotationLayer={false}
-                loading={<div className="animate-pulse bg-[#2a2a2a] w-[595px] h-[842px]" />}
+              </ResizablePanel>
+            </ResizablePanelGroup>
+            {search.query.trim() && <SearchResults search={search} />}
+            {isAnnotationsOpen && (
+              <AnnotationsPanel
+                annotations={markups}
+                isReady={areAnnotationsReady}
+                onSelect={onAnnotationSelect}
+                onDelete={(id) => void saveAnnotations(removeAnnotation(id))}
               />
-            </Document>
-          </div>
-        </div>
+            )}
+            {isCommentsOpen && <CommentsPanel notes={notes} activeId={openNoteId} onSelect={onNoteSelect} />}
+          </SidebarProvider>
+        </FileDropZone>
       </div>
+      {selectionAnchor && areAnnotationsReady && (
+        <MarkupToolbar
+          anchor={selectionAnchor}
+          onMark={(type, color) => {
+            markSelection(type, color)
+            setSelectionAnchor(null)
+          }}
+        />
+      )}
+      <ExternalLinkDialog href={pendingExternalLink} onClose={() => setPendingExternalLink(null)} />
+      <PasswordDialog
+        open={passwordRequest !== null && isActive}
+        isIncorrect={passwordRequest?.isIncorrect ?? false}
+        documentName={getSourceName(source)}
+        onSubmit={submitPassword}
+        onCancel={declinePassword}
+      />
     </div>
   );
 };
@@ -0,0 +1,69 @@
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { ANNOTATION_LABELS, isMarkup, sortAnnotations, type PageMark } from "@/lib/annotations"
+
+interface AnnotationsPanelProps {
+  annotations: PageMark[]
+  isReady: boolean
+  onSelect: (annotation: PageMark) => void
+  onDelete: (id: string) => void
+}
+
+const describe = (annotation: PageMark) => {
+  if (isMarkup(annotation)) {
+    return annotation.text
+  }
+  const drawing = annotation.type === "ink" ? "Freehand drawing" : "Drawn shape"
+  return annotation.author ? `${drawing} by ${annotation.author}` : drawing
+}
+
+const AnnotationsPanel = ({ annotations, isReady, onSelect, onDelete }: AnnotationsPanelProps) => {
+  const sorted = sortAnnotations(annotations)
+
+  return (
+    <div className="flex h-full w-72 flex-col border-l border-[#00ffd5]/30 bg-[#121212]">
+      <div className="px-3 py-2 text-xs text-[#00ffd5]/80 border-b border-[#00ffd5]/30">
+        {annotations.length} {annotations.length === 1 ? "annotation" : "annotations"}
+      </div>
+      <ScrollArea className="flex-1">
+        {sorted.length === 0 ? (
+          <p className="p-3 text-xs text-white/50">
+            {isReady
+              ? "Select text on a page to highlight, underline or strike it out, or draw on it."
+              : "Annotations are available once the document has loaded."}
+          </p>
+        ) : (
+          <ul className="p-2 space-y-1">
+            {sorted.map((annotation) => (
+              <li key={annotation.id} className="group flex items-start gap-1">
+                <button
+                  type="button"
+                  onClick={() => onSelect(annotation)}
+                  className="min-w-0 flex-1 rounded-md px-2 py-1.5 text-left text-xs text-white/70 hover:bg-primary/10"
+                >
+                  <span className="flex items-center gap-1.5 text-[10px] uppercase tracking-wide text-[#00ffd5]/70">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: annotation.color }} />
+                    {ANNOTATION_LABELS[annotation.type]} · Page {annotation.pageNumber}
+                  </span>
+                  <span className="line-clamp-2">{describe(annotation)}</span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 text-white/50 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:text-destructive"
+                  onClick={() => onDelete(annotation.id)}
+                  aria-label="Delete annotation"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default AnnotationsPanel
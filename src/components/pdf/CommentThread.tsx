@@ -0,0 +1,125 @@
+import { useState } from "react"
+import { Check, RotateCcw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { getCommentAuthor, setCommentAuthor } from "@/lib/commentAuthor"
+import { formatTimestamp } from "@/lib/format"
+import type { CommentStatus, NoteAnnotation } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+
+interface CommentThreadProps {
+  note: NoteAnnotation
+  // The first post fills in the note itself; later ones are replies.
+  onPost: (text: string, author: string) => void
+  onStatusChange: (status: CommentStatus) => void
+  onDelete: () => void
+}
+
+const Comment = ({ author, text, createdAt }: { author: string; text: string; createdAt: number }) => (
+  <div className="space-y-1">
+    <div className="flex items-baseline justify-between gap-2 text-xs">
+      <span className="font-medium text-foreground truncate">{author}</span>
+      <time className="shrink-0 text-muted-foreground" dateTime={new Date(createdAt).toISOString()}>
+        {formatTimestamp(createdAt)}
+      </time>
+    </div>
+    <p className="whitespace-pre-wrap break-words text-sm">{text}</p>
+  </div>
+)
+
+const CommentThread = ({ note, onPost, onStatusChange, onDelete }: CommentThreadProps) => {
+  const [author, setAuthor] = useState(getCommentAuthor)
+  const [isAuthorKnown] = useState(() => getCommentAuthor() !== "")
+  const [draft, setDraft] = useState("")
+  const isNew = note.text === ""
+  const isResolved = note.status === "resolved"
+  const canPost = draft.trim() !== "" && author.trim() !== ""
+
+  const post = (event?: React.FormEvent) => {
+    event?.preventDefault()
+    if (!canPost) {
+      return
+    }
+    setCommentAuthor(author)
+    onPost(draft.trim(), author.trim())
+    setDraft("")
+  }
+
+  return (
+    <div className="space-y-3">
+      {!isNew && (
+        <div className="flex items-center justify-between gap-2">
+          <span
+            className={cn(
+              "rounded-full px-2 py-0.5 text-[10px] uppercase tracking-wide",
+              isResolved ? "bg-muted text-muted-foreground" : "bg-primary/20 text-primary"
+            )}
+          >
+            {isResolved ? "Resolved" : "Open"}
+          </span>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onStatusChange(isResolved ? "open" : "resolved")}
+            >
+              {isResolved ? <RotateCcw className="mr-1 h-3.5 w-3.5" /> : <Check className="mr-1 h-3.5 w-3.5" />}
+              {isResolved ? "Reopen" : "Resolve"}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 hover:text-destructive"
+              onClick={onDelete}
+              aria-label="Delete thread"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      )}
+      {!isNew && (
+        <div className="max-h-64 space-y-3 overflow-y-auto">
+          <Comment author={note.author} text={note.text} createdAt={note.createdAt} />
+          {note.replies.map((reply) => (
+            <div key={reply.id} className="border-l-2 border-border pl-3">
+              <Comment author={reply.author} text={reply.text} createdAt={reply.createdAt} />
+            </div>
+          ))}
+        </div>
+      )}
+      <form onSubmit={post} className="space-y-2">
+        {!isAuthorKnown && (
+          <Input
+            placeholder="Your name"
+            value={author}
+            onChange={(event) => setAuthor(event.target.value)}
+            aria-label="Your name"
+          />
+        )}
+        <Textarea
+          autoFocus
+          rows={3}
+          placeholder={isNew ? "Add a comment…" : "Reply…"}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
+              post()
+            }
+          }}
+          aria-label={isNew ? "Comment" : "Reply"}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={!canPost}>
+            {isNew ? "Comment" : "Reply"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default CommentThread
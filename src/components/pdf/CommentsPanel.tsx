@@ -0,0 +1,90 @@
+import { useState } from "react"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { formatTimestamp } from "@/lib/format"
+import { sortAnnotations, type CommentStatus, type NoteAnnotation } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+
+type StatusFilter = CommentStatus | "all"
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "all", label: "All" },
+]
+
+interface CommentsPanelProps {
+  notes: NoteAnnotation[]
+  activeId: string | null
+  onSelect: (note: NoteAnnotation) => void
+}
+
+const CommentsPanel = ({ notes, activeId, onSelect }: CommentsPanelProps) => {
+  const [filter, setFilter] = useState<StatusFilter>("open")
+  // Notes still waiting for their first comment aren't part of the discussion yet.
+  const posted = notes.filter((note) => note.text !== "")
+  const count = (status: StatusFilter) =>
+    status === "all" ? posted.length : posted.filter((note) => note.status === status).length
+  const shown = sortAnnotations(filter === "all" ? posted : posted.filter((note) => note.status === filter))
+
+  return (
+    <div className="flex h-full w-72 flex-col border-l border-[#00ffd5]/30 bg-[#121212]">
+      <div className="px-2 py-1.5 border-b border-[#00ffd5]/30">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={filter}
+          onValueChange={(value) => value && setFilter(value as StatusFilter)}
+          aria-label="Filter comments"
+          className="justify-start"
+        >
+          {FILTERS.map(({ value, label }) => (
+            <ToggleGroupItem key={value} value={value} className="h-7 px-2 text-xs text-[#00ffd5]/80">
+              {label} ({count(value)})
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+      <ScrollArea className="flex-1">
+        {shown.length === 0 ? (
+          <p className="p-3 text-xs text-white/50">
+            {posted.length === 0
+              ? "Use the comment tool and click on a page to start a discussion."
+              : "No comments match this filter."}
+          </p>
+        ) : (
+          <ul className="p-2 space-y-1">
+            {shown.map((note) => (
+              <li key={note.id}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(note)}
+                  className={cn(
+                    "w-full rounded-md px-2 py-1.5 text-left text-xs text-white/70 hover:bg-primary/10",
+                    note.id === activeId && "bg-primary/20 text-white",
+                    note.status === "resolved" && "opacity-60"
+                  )}
+                >
+                  <span className="flex items-center justify-between gap-2 text-[10px] uppercase tracking-wide text-[#00ffd5]/70">
+                    <span className="truncate">
+                      {note.author} · Page {note.pageNumber}
+                    </span>
+                    <span className="shrink-0 normal-case tracking-normal">{formatTimestamp(note.createdAt)}</span>
+                  </span>
+                  <span className="line-clamp-2">{note.text}</span>
+                  {note.replies.length > 0 && (
+                    <span className="mt-0.5 block text-[10px] text-white/50">
+                      {note.replies.length} {note.replies.length === 1 ? "reply" : "replies"}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default CommentsPanel
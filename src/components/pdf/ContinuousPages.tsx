@@ -0,0 +1,69 @@
+import { useEffect, type ReactNode } from "react"
+import { useLatest } from "@/hooks/use-latest"
+import { getPageSize, type PageSize } from "@/hooks/use-page-sizes"
+import { mostVisiblePage, useVisiblePages } from "@/hooks/use-visible-pages"
+
+interface ContinuousPagesProps {
+  spreads: number[][]
+  pageSizes: PageSize[]
+  scale: number
+  scrollRoot: HTMLElement | null
+  renderPage: (pageNumber: number) => ReactNode
+  onVisiblePageChange: (pageNumber: number) => void
+}
+
+/**
+ * Stacks every spread vertically but only mounts `<Page>` for slots within a
+ * screen of the viewport. Slots that scroll away unmount their page, which
+ * releases its canvas, and keep their size so the scroll height stays stable.
+ */
+const ContinuousPages = ({
+  spreads,
+  pageSizes,
+  scale,
+  scrollRoot,
+  renderPage,
+  onVisiblePageChange,
+}: ContinuousPagesProps) => {
+  const renderWindow = useVisiblePages(scrollRoot, spreads, "100% 0px")
+  const onScreen = useVisiblePages(scrollRoot, spreads)
+  const currentPage = mostVisiblePage(onScreen)
+  const onVisiblePageChangeRef = useLatest(onVisiblePageChange)
+
+  // Reported when the page changes, not whenever the callback does.
+  useEffect(() => {
+    if (currentPage !== null) {
+      onVisiblePageChangeRef.current(currentPage)
+    }
+  }, [currentPage, onVisiblePageChangeRef])
+
+  return (
+    <div className="flex flex-col items-center gap-4 py-4">
+      {spreads.map((spread) => (
+        <div key={spread.join("-")} className="flex items-center justify-center gap-2">
+          {spread.map((pageNumber) => {
+            const size = getPageSize(pageSizes, pageNumber)
+            const width = Math.round(size.width * scale)
+            const height = Math.round(size.height * scale)
+            return (
+              <div
+                key={pageNumber}
+                data-page-slot={pageNumber}
+                className="flex items-center justify-center"
+                style={{ minWidth: width, minHeight: height }}
+              >
+                {renderWindow.has(pageNumber) ? (
+                  renderPage(pageNumber)
+                ) : (
+                  <div className="bg-[#2a2a2a] shadow-lg" style={{ width, height }} />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default ContinuousPages
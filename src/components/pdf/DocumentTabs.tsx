@@ -0,0 +1,229 @@
+import { useCallback, useState } from "react"
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import PDFViewer from "@/components/PDFViewer"
+import type { DocumentTab } from "@/hooks/use-document-tabs"
+import { getSourceName, type PDFSource } from "@/lib/pdfSource"
+import type { ViewParams } from "@/lib/viewParams"
+import { cn } from "@/lib/utils"
+
+const TAB_DRAG_TYPE = "application/x-pdf-viewer-tab"
+
+interface DocumentTabsProps {
+  tabs: DocumentTab[]
+  activeId: string | null
+  onActivate: (id: string) => void
+  onOpen: (url: string) => void
+  onClose: (id: string) => void
+  onMove: (id: string, toIndex: number) => void
+  onViewChange: (id: string, view: ViewParams, documentUrl: string | null) => void
+  onSourceChange: (id: string, source: PDFSource) => void
+}
+
+const getTabLabel = (tab: DocumentTab) => tab.fileName ?? getSourceName({ kind: "url", url: tab.url })
+
+interface OpenURLFormProps {
+  onOpen: (url: string) => void
+  className?: string
+}
+
+const OpenURLForm = ({ onOpen, className }: OpenURLFormProps) => {
+  const [value, setValue] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault()
+    let url: URL
+    try {
+      url = new URL(value.trim())
+    } catch {
+      setError("Enter a full link, e.g. https://example.com/file.pdf")
+      return
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      setError("Only http and https links can be opened")
+      return
+    }
+    onOpen(url.href)
+    setValue("")
+    setError(null)
+  }
+
+  return (
+    <form onSubmit={submit} className={cn("space-y-2", className)}>
+      <div className="flex gap-2">
+        <Input
+          type="url"
+          autoFocus
+          placeholder="https://example.com/document.pdf"
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+          aria-label="PDF link"
+          aria-invalid={error !== null}
+        />
+        <Button type="submit" disabled={!value.trim()}>
+          Open
+        </Button>
+      </div>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  )
+}
+
+interface DocumentTabPanelProps {
+  tab: DocumentTab
+  isActive: boolean
+  onViewChange: DocumentTabsProps["onViewChange"]
+  onSourceChange: DocumentTabsProps["onSourceChange"]
+}
+
+// Binds the tab id so each viewer gets callbacks that stay the same across renders.
+const DocumentTabPanel = ({ tab, isActive, onViewChange, onSourceChange }: DocumentTabPanelProps) => {
+  const { id } = tab
+  const handleViewChange = useCallback(
+    (view: ViewParams, documentUrl: string | null) => onViewChange(id, view, documentUrl),
+    [id, onViewChange]
+  )
+  const handleSourceChange = useCallback((source: PDFSource) => onSourceChange(id, source), [id, onSourceChange])
+
+  return (
+    <PDFViewer
+      url={tab.url}
+      view={tab.requestedView}
+      onViewChange={handleViewChange}
+      onSourceChange={handleSourceChange}
+      isActive={isActive}
+    />
+  )
+}
+
+/**
+ * One tab per open document. Inactive viewers stay mounted but hidden, so
+ * switching back finds the page, zoom, scroll position and search as they were.
+ */
+const DocumentTabs = ({
+  tabs,
+  activeId,
+  onActivate,
+  onOpen,
+  onClose,
+  onMove,
+  onViewChange,
+  onSourceChange,
+}: DocumentTabsProps) => {
+  const [isOpenFormVisible, setIsOpenFormVisible] = useState(false)
+
+  const openFromPopover = (url: string) => {
+    setIsOpenFormVisible(false)
+    onOpen(url)
+  }
+
+  const onDragStart = (event: React.DragEvent, id: string) => {
+    event.dataTransfer.setData(TAB_DRAG_TYPE, id)
+    event.dataTransfer.effectAllowed = "move"
+  }
+
+  const onDragOver = (event: React.DragEvent) => {
+    if (Array.from(event.dataTransfer.types).includes(TAB_DRAG_TYPE)) {
+      event.preventDefault()
+      event.dataTransfer.dropEffect = "move"
+    }
+  }
+
+  // Dropping on the right half of a tab puts the dragged tab after it.
+  const onDrop = (event: React.DragEvent<HTMLElement>, targetIndex: number) => {
+    const id = event.dataTransfer.getData(TAB_DRAG_TYPE)
+    const fromIndex = tabs.findIndex((tab) => tab.id === id)
+    if (fromIndex === -1) {
+      return
+    }
+    event.preventDefault()
+    const rect = event.currentTarget.getBoundingClientRect()
+    const insertAt = event.clientX > rect.left + rect.width / 2 ? targetIndex + 1 : targetIndex
+    onMove(id, insertAt > fromIndex ? insertAt - 1 : insertAt)
+  }
+
+  if (tabs.length === 0) {
+    return (
+      <div className="w-full max-w-5xl mx-auto p-4">
+        <div className="bg-[#121212] rounded-lg shadow-xl border border-[#00ffd5] p-6 space-y-4">
+          <div>
+            <h2 className="text-foreground font-semibold">No open documents</h2>
+            <p className="text-sm text-white/70">Paste a link to a PDF to open it in a new tab.</p>
+          </div>
+          <OpenURLForm onOpen={onOpen} />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Tabs value={activeId ?? undefined} onValueChange={onActivate} className="w-full">
+      <div className="w-full max-w-5xl mx-auto px-4 pt-4 flex items-center gap-2">
+        <TabsList className="justify-start min-w-0 overflow-x-auto" aria-label="Open documents">
+          {tabs.map((tab, index) => (
+            <div
+              key={tab.id}
+              draggable
+              onDragStart={(event) => onDragStart(event, tab.id)}
+              onDragOver={onDragOver}
+              onDrop={(event) => onDrop(event, index)}
+              // Middle click closes, as in browsers.
+              onAuxClick={(event) => event.button === 1 && onClose(tab.id)}
+              className="flex items-center shrink-0"
+            >
+              <TabsTrigger
+                value={tab.id}
+                title={tab.fileName ?? tab.url}
+                onKeyDown={(event) => event.key === "Delete" && onClose(tab.id)}
+                className="max-w-[12rem] pr-1"
+              >
+                <span className="truncate">{getTabLabel(tab)}</span>
+              </TabsTrigger>
+              <Button
+                variant="ghost"
+                size="icon"
+                // Tabs are reached with the arrow keys; Delete closes the focused one.
+                tabIndex={-1}
+                className="h-6 w-6"
+                aria-label={`Close ${getTabLabel(tab)}`}
+                onClick={() => onClose(tab.id)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </TabsList>
+        <Popover open={isOpenFormVisible} onOpenChange={setIsOpenFormVisible}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="text-primary hover:bg-primary/20" aria-label="New tab">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-96">
+            <OpenURLForm onOpen={openFromPopover} />
+          </PopoverContent>
+        </Popover>
+      </div>
+      {tabs.map((tab) => (
+        <TabsContent key={tab.id} value={tab.id} forceMount className="mt-0 data-[state=inactive]:hidden">
+          <DocumentTabPanel
+            tab={tab}
+            isActive={tab.id === activeId}
+            onViewChange={onViewChange}
+            onSourceChange={onSourceChange}
+          />
+        </TabsContent>
+      ))}
+    </Tabs>
+  )
+}
+
+export default DocumentTabs
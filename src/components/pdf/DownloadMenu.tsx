@@ -0,0 +1,97 @@
+import { useRef } from "react"
+import { ChevronDown, Download, FileCode, FileDown, FileInput, FileJson } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { AnnotationFileFormat } from "@/lib/annotations"
+
+interface DownloadMenuProps {
+  // Annotations can only be written or read once they have loaded.
+  areAnnotationsReady: boolean
+  onDownload: (options: { withAnnotations: boolean }) => void
+  onImportAnnotations: () => void
+  onExportAnnotationFile: (format: AnnotationFileFormat) => void
+  onImportAnnotationFile: (file: File) => void
+}
+
+const DownloadMenu = ({
+  areAnnotationsReady,
+  onDownload,
+  onImportAnnotations,
+  onExportAnnotationFile,
+  onImportAnnotationFile,
+}: DownloadMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <div className="flex items-center">
+      <Button
+        onClick={() => onDownload({ withAnnotations: false })}
+        variant="secondary"
+        size="sm"
+        className="rounded-r-none bg-primary text-primary-foreground hover:bg-primary/90 group"
+      >
+        <Download className="mr-2 h-4 w-4 group-hover:animate-download-bounce" />
+        Download PDF
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="rounded-l-none border-l border-primary-foreground/20 bg-primary px-2 text-primary-foreground hover:bg-primary/90"
+            aria-label="More download options"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem disabled={!areAnnotationsReady} onSelect={() => onDownload({ withAnnotations: true })}>
+            <FileDown className="mr-2 h-4 w-4" />
+            Download with annotations
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Annotations</DropdownMenuLabel>
+          <DropdownMenuItem disabled={!areAnnotationsReady} onSelect={() => onExportAnnotationFile("xfdf")}>
+            <FileCode className="mr-2 h-4 w-4" />
+            Export as XFDF
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!areAnnotationsReady} onSelect={() => onExportAnnotationFile("json")}>
+            <FileJson className="mr-2 h-4 w-4" />
+            Export as JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!areAnnotationsReady} onSelect={() => fileInputRef.current?.click()}>
+            <FileInput className="mr-2 h-4 w-4" />
+            Import XFDF or JSON…
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!areAnnotationsReady} onSelect={onImportAnnotations}>
+            <FileInput className="mr-2 h-4 w-4" />
+            Import from this PDF
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xfdf,.json,application/vnd.adobe.xfdf,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const [file] = Array.from(event.target.files ?? [])
+          // Clear the input so picking the same file again still fires a change.
+          event.target.value = ""
+          if (file) {
+            onImportAnnotationFile(file)
+          }
+        }}
+      />
+    </div>
+  )
+}
+
+export default DownloadMenu
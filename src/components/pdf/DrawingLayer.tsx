@@ -0,0 +1,196 @@
+import * as React from "react"
+import { usePageContext } from "react-pdf"
+import DrawingStroke from "@/components/pdf/DrawingStroke"
+import { clientPointToPDF, touchesDrawing } from "@/lib/annotationGeometry"
+import { MARKER_OPACITY, MARKER_WIDTH_FACTOR, type Drawing, type DrawingSettings } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+
+interface DrawingLayerProps {
+  settings: DrawingSettings
+  // The page's drawings, for the eraser.
+  drawings: Drawing[]
+  author?: string
+  onDraw: (drawing: Drawing) => void
+  // Called for each drawing the eraser touches; `strokeId` is the same for
+  // the whole eraser stroke and unique across pages and remounts.
+  onErase: (drawings: Drawing[], strokeId: string) => void
+}
+
+// Points closer than this to the last one, in screen pixels, add nothing but size.
+const MIN_POINT_DISTANCE = 1.5
+// Shapes smaller than this, in screen pixels, are taken for stray taps.
+const MIN_SHAPE_SIZE = 3
+// Reach of the eraser around the pointer, in screen pixels.
+const ERASER_RADIUS = 8
+// Pens report no pressure on some devices at the very start of a stroke; the
+// width never drops below this fraction so the stroke stays visible.
+const MIN_PRESSURE = 0.1
+
+type Point = [number, number]
+
+/**
+ * Takes pointer input on a page while drawing mode is on: mouse, pen and
+ * touch. Rendered inside <Page>, like MarkupLayer; points are converted to PDF
+ * user space as they come in, so drawings keep their place at any zoom or
+ * rotation. Only the stroke in progress is drawn here; finished ones are
+ * saved and shown by MarkupLayer.
+ */
+const DrawingLayer = ({ settings, drawings, author, onDraw, onErase }: DrawingLayerProps) => {
+  const context = usePageContext()
+  const [draft, setDraft] = React.useState<Drawing | null>(null)
+  // The same stroke, current even before the next render, for pointerup.
+  const draftRef = React.useRef<Drawing | null>(null)
+  const pointerIdRef = React.useRef<number | null>(null)
+  const strokeIdRef = React.useRef("")
+  const erasedRef = React.useRef(new Set<string>())
+  const page = context?.page
+  if (!context || !page) {
+    return null
+  }
+  const viewport = page.getViewport({ scale: context.scale, rotation: context.rotate })
+  const { tool, color, width } = settings
+
+  // Every point of a move, including those the browser merged into one event.
+  const pointsOf = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const events = event.nativeEvent.getCoalescedEvents?.() ?? []
+    return (events.length > 0 ? events : [event.nativeEvent]).map((pointer) => ({
+      point: clientPointToPDF(pointer.clientX, pointer.clientY, bounds, viewport),
+      // Only a stylus reports real pressure; mice and fingers give a fixed value.
+      pressure: event.pointerType === "pen" ? Math.min(1, Math.max(MIN_PRESSURE, pointer.pressure)) : null,
+    }))
+  }
+
+  const updateDraft = (next: Drawing | null) => {
+    draftRef.current = next
+    setDraft(next)
+  }
+
+  const erase = (points: Point[]) => {
+    const radius = ERASER_RADIUS / viewport.scale
+    const touched = drawings.filter(
+      (drawing) =>
+        !erasedRef.current.has(drawing.id) && points.some((point) => touchesDrawing(drawing, point, radius))
+    )
+    if (touched.length > 0) {
+      touched.forEach((drawing) => erasedRef.current.add(drawing.id))
+      onErase(touched, strokeIdRef.current)
+    }
+  }
+
+  const start = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (pointerIdRef.current !== null) {
+      // A second finger means a pinch, not a stroke.
+      if (event.pointerType === "touch") {
+        pointerIdRef.current = null
+        updateDraft(null)
+      }
+      return
+    }
+    if (event.button !== 0) {
+      return
+    }
+    // Keeps the press from selecting text or starting a drag.
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    pointerIdRef.current = event.pointerId
+    strokeIdRef.current = crypto.randomUUID()
+    erasedRef.current.clear()
+
+    const [{ point, pressure }] = pointsOf(event)
+    const common = { id: crypto.randomUUID(), pageNumber: page.pageNumber, color, author, createdAt: Date.now() }
+    switch (tool) {
+      case "eraser":
+        erase([point])
+        return
+      case "pen":
+        updateDraft({
+          ...common,
+          type: "ink",
+          paths: [[point]],
+          pressures: pressure === null ? undefined : [[pressure]],
+          width,
+        })
+        return
+      case "marker":
+        updateDraft({
+          ...common,
+          type: "ink",
+          paths: [[point]],
+          width: width * MARKER_WIDTH_FACTOR,
+          opacity: MARKER_OPACITY,
+        })
+        return
+      default:
+        updateDraft({ ...common, type: tool, start: point, end: point, width })
+    }
+  }
+
+  const move = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== pointerIdRef.current) {
+      return
+    }
+    const points = pointsOf(event)
+    if (tool === "eraser") {
+      erase(points.map(({ point }) => point))
+      return
+    }
+    const current = draftRef.current
+    if (!current) {
+      return
+    }
+    if (current.type !== "ink") {
+      updateDraft({ ...current, end: points[points.length - 1].point })
+      return
+    }
+    const path = [...current.paths[0]]
+    const pressures = current.pressures ? [...current.pressures[0]] : null
+    const minDistance = MIN_POINT_DISTANCE / viewport.scale
+    for (const { point, pressure } of points) {
+      const [lastX, lastY] = path[path.length - 1]
+      if (Math.hypot(point[0] - lastX, point[1] - lastY) < minDistance) {
+        continue
+      }
+      path.push(point)
+      pressures?.push(pressure ?? 1)
+    }
+    updateDraft({ ...current, paths: [path], pressures: pressures ? [pressures] : undefined })
+  }
+
+  const finish = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== pointerIdRef.current) {
+      return
+    }
+    const finished = draftRef.current
+    pointerIdRef.current = null
+    updateDraft(null)
+    if (!finished || event.type === "pointercancel") {
+      return
+    }
+    if (finished.type !== "ink") {
+      const [[x1, y1], [x2, y2]] = [finished.start, finished.end]
+      if (Math.hypot(x2 - x1, y2 - y1) * viewport.scale < MIN_SHAPE_SIZE) {
+        return
+      }
+    }
+    onDraw(finished)
+  }
+
+  return (
+    <div
+      className={cn("absolute inset-0 touch-none select-none", tool === "eraser" ? "cursor-cell" : "cursor-crosshair")}
+      onPointerDown={start}
+      onPointerMove={move}
+      onPointerUp={finish}
+      onPointerCancel={finish}
+    >
+      {draft && (
+        <svg className="pointer-events-none absolute inset-0 h-full w-full overflow-visible">
+          <DrawingStroke drawing={draft} viewport={viewport} />
+        </svg>
+      )}
+    </div>
+  )
+}
+
+export default DrawingLayer
@@ -0,0 +1,93 @@
+import type { PageViewport } from "pdfjs-dist"
+import { getArrowHead, getArrowHeadLength, normalizeRect, toViewportRect } from "@/lib/annotationGeometry"
+import type { Drawing } from "@/lib/annotations"
+
+interface DrawingStrokeProps {
+  drawing: Drawing
+  viewport: PageViewport
+}
+
+/**
+ * One ink stroke or shape as SVG, laid out with the page's viewport. Used for
+ * saved drawings and for the one still being drawn.
+ */
+const DrawingStroke = ({ drawing, viewport }: DrawingStrokeProps) => {
+  const toScreen = (point: [number, number]) => viewport.convertToViewportPoint(...point) as [number, number]
+  const strokeWidth = drawing.width * viewport.scale
+  const stroke = {
+    fill: "none",
+    stroke: drawing.color,
+    strokeWidth,
+    strokeLinecap: "round" as const,
+    strokeLinejoin: "round" as const,
+  }
+
+  switch (drawing.type) {
+    case "ink": {
+      const { paths, pressures, opacity = 1 } = drawing
+      return (
+        <g opacity={opacity} style={opacity < 1 ? { mixBlendMode: "multiply" } : undefined}>
+          {paths.map((path, pathIndex) => {
+            const points = path.map(toScreen)
+            const pathPressures = pressures?.[pathIndex]
+            if (!pathPressures || points.length === 1) {
+              return <polyline key={pathIndex} points={points.join(" ")} {...stroke} />
+            }
+            // Width follows the pen, so each segment is drawn on its own.
+            return (
+              <g key={pathIndex}>
+                {points.slice(1).map(([x2, y2], index) => {
+                  const [x1, y1] = points[index]
+                  const pressure = (pathPressures[index] + pathPressures[index + 1]) / 2
+                  return (
+                    <line
+                      key={index}
+                      x1={x1}
+                      y1={y1}
+                      x2={x2}
+                      y2={y2}
+                      {...stroke}
+                      strokeWidth={strokeWidth * pressure}
+                    />
+                  )
+                })}
+              </g>
+            )
+          })}
+        </g>
+      )
+    }
+    case "rectangle": {
+      const box = toViewportRect(normalizeRect([...drawing.start, ...drawing.end]), viewport)
+      return <rect x={box.left} y={box.top} width={box.width} height={box.height} {...stroke} />
+    }
+    case "ellipse": {
+      const box = toViewportRect(normalizeRect([...drawing.start, ...drawing.end]), viewport)
+      return (
+        <ellipse
+          cx={box.left + box.width / 2}
+          cy={box.top + box.height / 2}
+          rx={box.width / 2}
+          ry={box.height / 2}
+          {...stroke}
+        />
+      )
+    }
+    case "line":
+    case "arrow": {
+      const [[x1, y1], [x2, y2]] = [toScreen(drawing.start), toScreen(drawing.end)]
+      const head =
+        drawing.type === "arrow"
+          ? getArrowHead([x1, y1], [x2, y2], getArrowHeadLength(drawing.width) * viewport.scale)
+          : null
+      return (
+        <g>
+          <line x1={x1} y1={y1} x2={x2} y2={y2} {...stroke} />
+          {head && <polyline points={[head[0], [x2, y2], head[1]].join(" ")} {...stroke} />}
+        </g>
+      )
+    }
+  }
+}
+
+export default DrawingStroke
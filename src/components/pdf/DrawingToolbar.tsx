@@ -0,0 +1,121 @@
+import type { ComponentType } from "react"
+import { Circle, Eraser, Highlighter, MoveUpRight, Pen, Redo2, Slash, Square, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { DRAWING_COLORS, DRAWING_WIDTHS, type DrawingSettings, type DrawingTool } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+
+const TOOLS: { value: DrawingTool; label: string; icon: ComponentType<{ className?: string }> }[] = [
+  { value: "pen", label: "Pen", icon: Pen },
+  { value: "marker", label: "Marker", icon: Highlighter },
+  { value: "rectangle", label: "Rectangle", icon: Square },
+  { value: "ellipse", label: "Ellipse", icon: Circle },
+  { value: "arrow", label: "Arrow", icon: MoveUpRight },
+  { value: "line", label: "Line", icon: Slash },
+  { value: "eraser", label: "Eraser", icon: Eraser },
+]
+
+interface DrawingToolbarProps {
+  settings: DrawingSettings
+  onSettingsChange: (settings: DrawingSettings) => void
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+}
+
+/**
+ * Tool, color and width pickers for drawing on pages, shown under the main
+ * toolbar while drawing mode is on.
+ */
+const DrawingToolbar = ({ settings, onSettingsChange, canUndo, canRedo, onUndo, onRedo }: DrawingToolbarProps) => {
+  const isErasing = settings.tool === "eraser"
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Drawing tools"
+      className="flex flex-wrap items-center gap-3 border-t border-white/10 bg-muted px-4 py-2"
+    >
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={settings.tool}
+        onValueChange={(value) => value && onSettingsChange({ ...settings, tool: value as DrawingTool })}
+        aria-label="Drawing tool"
+      >
+        {TOOLS.map(({ value, label, icon: Icon }) => (
+          <ToggleGroupItem key={value} value={value} aria-label={label} title={label} className="text-primary">
+            <Icon className="h-4 w-4" />
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <div className="h-5 w-px bg-white/20" />
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Stroke color">
+        {DRAWING_COLORS.map((color) => (
+          <button
+            key={color.value}
+            type="button"
+            role="radio"
+            aria-checked={settings.color === color.value}
+            disabled={isErasing}
+            onClick={() => onSettingsChange({ ...settings, color: color.value })}
+            className={cn(
+              "h-6 w-6 rounded-full border border-white/20 transition-transform hover:scale-110 disabled:opacity-40",
+              settings.color === color.value && "ring-2 ring-primary ring-offset-1 ring-offset-[#121212]"
+            )}
+            style={{ backgroundColor: color.value }}
+            aria-label={color.name}
+            title={color.name}
+          />
+        ))}
+      </div>
+      <div className="h-5 w-px bg-white/20" />
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={String(settings.width)}
+        onValueChange={(value) => value && onSettingsChange({ ...settings, width: Number(value) })}
+        disabled={isErasing}
+        aria-label="Stroke width"
+      >
+        {DRAWING_WIDTHS.map((width) => (
+          <ToggleGroupItem
+            key={width}
+            value={String(width)}
+            aria-label={`${width} pt`}
+            title={`${width} pt`}
+            className="w-8 text-primary"
+          >
+            <span className="rounded-full bg-current" style={{ width: width + 2, height: width + 2 }} />
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <div className="h-5 w-px bg-white/20" />
+      <Button
+        onClick={onUndo}
+        disabled={!canUndo}
+        variant="ghost"
+        size="sm"
+        className="text-primary hover:bg-primary/20"
+        aria-label="Undo"
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        onClick={onRedo}
+        disabled={!canRedo}
+        variant="ghost"
+        size="sm"
+        className="text-primary hover:bg-primary/20"
+        aria-label="Redo"
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+export default DrawingToolbar
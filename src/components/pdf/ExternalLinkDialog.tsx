@@ -0,0 +1,44 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+interface ExternalLinkDialogProps {
+  href: string | null
+  onClose: () => void
+}
+
+const ExternalLinkDialog = ({ href, onClose }: ExternalLinkDialogProps) => {
+  const openLink = () => {
+    if (href) {
+      window.open(href, "_blank", "noopener,noreferrer")
+    }
+    onClose()
+  }
+
+  return (
+    <AlertDialog open={href !== null} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Open external link?</AlertDialogTitle>
+          <AlertDialogDescription>
+            This document links to a page outside the viewer. It will open in a new tab.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <p className="break-all rounded-md bg-muted px-3 py-2 text-sm text-foreground">{href}</p>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={openLink}>Open link</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export default ExternalLinkDialog
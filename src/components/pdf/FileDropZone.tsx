@@ -0,0 +1,77 @@
+import { useRef, useState, type CSSProperties, type ReactNode } from "react"
+import { FileUp } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface FileDropZoneProps {
+  onFile: (file: File) => void
+  className?: string
+  style?: CSSProperties
+  children: ReactNode
+}
+
+const hasFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes("Files")
+
+const FileDropZone = ({ onFile, className, style, children }: FileDropZoneProps) => {
+  const [isDragging, setIsDragging] = useState(false)
+  // dragenter/dragleave fire for every child element; count them so the
+  // overlay only disappears once the pointer really leaves the zone.
+  const depthRef = useRef(0)
+
+  const onDragEnter = (event: React.DragEvent) => {
+    if (!hasFiles(event)) {
+      return
+    }
+    event.preventDefault()
+    depthRef.current += 1
+    setIsDragging(true)
+  }
+
+  const onDragOver = (event: React.DragEvent) => {
+    if (!hasFiles(event)) {
+      return
+    }
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "copy"
+  }
+
+  const onDragLeave = () => {
+    depthRef.current = Math.max(0, depthRef.current - 1)
+    if (depthRef.current === 0) {
+      setIsDragging(false)
+    }
+  }
+
+  const onDrop = (event: React.DragEvent) => {
+    if (!hasFiles(event)) {
+      return
+    }
+    event.preventDefault()
+    depthRef.current = 0
+    setIsDragging(false)
+    const [file] = Array.from(event.dataTransfer.files)
+    if (file) {
+      onFile(file)
+    }
+  }
+
+  return (
+    <div
+      className={cn("relative", className)}
+      style={style}
+      onDragEnter={onDragEnter}
+      onDragOver={onDragOver}
+      onDragLeave={onDragLeave}
+      onDrop={onDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="pointer-events-none absolute inset-0 z-40 flex flex-col items-center justify-center gap-3 border-2 border-dashed border-[#00ffd5] bg-[#121212]/90 text-[#00ffd5]">
+          <FileUp className="h-10 w-10" />
+          <p className="text-sm font-medium">Drop a PDF to open it</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FileDropZone
@@ -0,0 +1,127 @@
+import type { ReactNode } from "react"
+import { AlertTriangle, Download, FolderOpen, Globe, KeyRound, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { PDFLoadError, PDFLoadErrorKind } from "@/lib/pdfErrors"
+
+type RecoveryAction = "retry" | "proxy" | "local" | "download" | "reload-page"
+
+interface ErrorCopy {
+  title: string
+  description: (error: PDFLoadError) => string
+  actions: RecoveryAction[]
+}
+
+const ERROR_COPY: Record<PDFLoadErrorKind, ErrorCopy> = {
+  network: {
+    title: "Couldn't reach the server",
+    description: () => "Check your connection and try again.",
+    actions: ["retry", "proxy", "local"],
+  },
+  cors: {
+    title: "This site won't share the file",
+    description: () =>
+      "The server doesn't allow other sites to read this document, and the proxy isn't allowed to fetch from it.",
+    actions: ["download", "local"],
+  },
+  http: {
+    title: "The server returned an error",
+    description: (error) =>
+      error.status === 404
+        ? "The document wasn't found at this address."
+        : `The server answered with status ${error.status ?? "unknown"}.`,
+    actions: ["retry", "proxy", "download", "local"],
+  },
+  "not-pdf": {
+    title: "This link isn't a PDF",
+    description: () => "The address returned something else, such as a web page or a login screen.",
+    actions: ["download", "proxy", "local"],
+  },
+  corrupt: {
+    title: "The PDF is damaged",
+    description: () => "The file couldn't be read. Another PDF reader may still be able to open it.",
+    actions: ["download", "local"],
+  },
+  password: {
+    title: "This document is password protected",
+    description: () => "Enter the password to open it.",
+    actions: ["retry"],
+  },
+  worker: {
+    title: "The PDF engine failed to start",
+    description: () => "Reloading the page usually fixes this.",
+    actions: ["reload-page", "retry"],
+  },
+  unknown: {
+    title: "Error loading PDF",
+    description: () => "Something went wrong while opening the document.",
+    actions: ["retry", "local"],
+  },
+}
+
+interface LoadErrorPanelProps {
+  error: PDFLoadError
+  // Actions that only make sense for documents opened from a URL.
+  isRemote: boolean
+  onRetry: () => void
+  onOpenViaProxy: () => void
+  onOpenLocalCopy: () => void
+  // Left out when the browser shouldn't be sent to the document's URL.
+  onDownloadAnyway?: () => void
+}
+
+const LoadErrorPanel = ({
+  error,
+  isRemote,
+  onRetry,
+  onOpenViaProxy,
+  onOpenLocalCopy,
+  onDownloadAnyway,
+}: LoadErrorPanelProps) => {
+  const copy = ERROR_COPY[error.kind]
+  const buttons: Record<RecoveryAction, ReactNode> = {
+    retry: (
+      <Button key="retry" variant="secondary" size="sm" onClick={onRetry}>
+        {error.kind === "password" ? <KeyRound className="mr-2 h-4 w-4" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+        {error.kind === "password" ? "Enter password" : "Try again"}
+      </Button>
+    ),
+    proxy: isRemote && (
+      <Button key="proxy" variant="secondary" size="sm" onClick={onOpenViaProxy}>
+        <Globe className="mr-2 h-4 w-4" />
+        Open via proxy
+      </Button>
+    ),
+    local: (
+      <Button key="local" variant="secondary" size="sm" onClick={onOpenLocalCopy}>
+        <FolderOpen className="mr-2 h-4 w-4" />
+        Open local copy
+      </Button>
+    ),
+    download: isRemote && onDownloadAnyway && (
+      <Button key="download" variant="secondary" size="sm" onClick={onDownloadAnyway}>
+        <Download className="mr-2 h-4 w-4" />
+        Download anyway
+      </Button>
+    ),
+    "reload-page": (
+      <Button key="reload-page" variant="secondary" size="sm" onClick={() => window.location.reload()}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        Reload page
+      </Button>
+    ),
+  }
+
+  return (
+    <div className="flex max-w-md flex-col items-center gap-4 p-6 text-center" role="alert">
+      <AlertTriangle className="h-10 w-10 text-red-500" />
+      <div className="space-y-1">
+        <p className="font-semibold text-white">{copy.title}</p>
+        <p className="text-sm text-white/70">{copy.description(error)}</p>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">{copy.actions.map((action) => buttons[action])}</div>
+      {error.message && <p className="break-all text-xs text-white/40">{error.message}</p>}
+    </div>
+  )
+}
+
+export default LoadErrorPanel
@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import type { DownloadProgress } from "@/api/pdfProxy"
+import { formatBytes } from "@/lib/format"
+import { cn } from "@/lib/utils"
+
+interface LoadProgressProps {
+  progress: DownloadProgress | null
+  onCancel: () => void
+}
+
+const LoadProgress = ({ progress, onCancel }: LoadProgressProps) => {
+  const total = progress?.total ?? null
+  const percent = progress && total ? Math.min(100, (progress.loaded / total) * 100) : null
+
+  return (
+    <div className="flex w-72 flex-col items-center gap-3" role="status">
+      <Progress
+        value={percent ?? undefined}
+        className={cn("h-2 bg-[#00ffd5]/20", percent === null && "animate-pulse")}
+        aria-label="Loading document"
+      />
+      <p className="text-sm text-white/70 tabular-nums">
+        {!progress || progress.loaded === 0
+          ? "Connecting…"
+          : total
+            ? `${formatBytes(progress.loaded)} of ${formatBytes(total)}`
+            : `${formatBytes(progress.loaded)} loaded`}
+      </p>
+      <Button variant="ghost" size="sm" className="text-primary hover:bg-primary/20" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  )
+}
+
+export default LoadProgress
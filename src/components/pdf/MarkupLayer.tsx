@@ -0,0 +1,56 @@
+import { usePageContext } from "react-pdf"
+import DrawingStroke from "@/components/pdf/DrawingStroke"
+import { markupBand, toViewportRect } from "@/lib/annotationGeometry"
+import { isDrawing, isMarkup, type PageMark } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+
+interface MarkupLayerProps {
+  annotations: PageMark[]
+}
+
+/**
+ * Draws a page's highlights, underlines, strikeouts and drawings. Rendered
+ * inside <Page>, so it is laid out with the page's current scale and rotation.
+ */
+const MarkupLayer = ({ annotations }: MarkupLayerProps) => {
+  const context = usePageContext()
+  const page = context?.page
+  if (!context || !page || annotations.length === 0) {
+    return null
+  }
+  const viewport = page.getViewport({ scale: context.scale, rotation: context.rotate })
+  const drawings = annotations.filter(isDrawing)
+
+  return (
+    // Pointer events pass through so the text underneath stays selectable.
+    <div className="absolute inset-0 pointer-events-none" aria-hidden>
+      {annotations.filter(isMarkup).flatMap((annotation) =>
+        annotation.rects.map((rect, index) => {
+          const box = toViewportRect(markupBand(rect, annotation.type, page.rotate), viewport)
+          return (
+            <div
+              key={`${annotation.id}-${index}`}
+              className={cn("absolute", annotation.type === "highlight" && "mix-blend-multiply opacity-60")}
+              style={{
+                left: box.left,
+                top: box.top,
+                width: box.width,
+                height: box.height,
+                backgroundColor: annotation.color,
+              }}
+            />
+          )
+        })
+      )}
+      {drawings.length > 0 && (
+        <svg className="absolute inset-0 h-full w-full overflow-visible">
+          {drawings.map((drawing) => (
+            <DrawingStroke key={drawing.id} drawing={drawing} viewport={viewport} />
+          ))}
+        </svg>
+      )}
+    </div>
+  )
+}
+
+export default MarkupLayer
@@ -0,0 +1,58 @@
+import { Strikethrough, Underline } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { HIGHLIGHT_COLORS, LINE_MARKUP_COLOR, type MarkupType } from "@/lib/annotations"
+
+interface MarkupToolbarProps {
+  // Client coordinates of the top centre of the selection.
+  anchor: { top: number; left: number }
+  onMark: (type: MarkupType, color: string) => void
+}
+
+/**
+ * Floats above a text selection on the page and marks it up.
+ */
+const MarkupToolbar = ({ anchor, onMark }: MarkupToolbarProps) => (
+  <div
+    role="toolbar"
+    aria-label="Mark up selection"
+    className="fixed z-50 flex items-center gap-1 rounded-md border border-[#00ffd5]/40 bg-[#121212] p-1 shadow-lg -translate-x-1/2 -translate-y-full"
+    style={{ top: anchor.top - 8, left: anchor.left }}
+    // Keeps the click from clearing the selection it is about to mark.
+    onMouseDown={(event) => event.preventDefault()}
+  >
+    {HIGHLIGHT_COLORS.map((color) => (
+      <button
+        key={color.value}
+        type="button"
+        onClick={() => onMark("highlight", color.value)}
+        className="h-6 w-6 rounded-full border border-white/20 hover:scale-110 transition-transform"
+        style={{ backgroundColor: color.value }}
+        aria-label={`Highlight ${color.name.toLowerCase()}`}
+        title={`Highlight (${color.name.toLowerCase()})`}
+      />
+    ))}
+    <div className="mx-1 h-5 w-px bg-white/20" />
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 px-2 text-primary hover:bg-primary/20"
+      onClick={() => onMark("underline", LINE_MARKUP_COLOR)}
+      aria-label="Underline"
+      title="Underline"
+    >
+      <Underline className="h-4 w-4" />
+    </Button>
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 px-2 text-primary hover:bg-primary/20"
+      onClick={() => onMark("strikeout", LINE_MARKUP_COLOR)}
+      aria-label="Strikeout"
+      title="Strikeout"
+    >
+      <Strikethrough className="h-4 w-4" />
+    </Button>
+  </div>
+)
+
+export default MarkupToolbar
@@ -0,0 +1,58 @@
+import type { ReactNode } from "react"
+import { MessageSquare } from "lucide-react"
+import { usePageContext } from "react-pdf"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { NoteAnnotation } from "@/lib/annotations"
+import { cn } from "@/lib/utils"
+
+interface NoteLayerProps {
+  notes: NoteAnnotation[]
+  openNoteId: string | null
+  onOpenChange: (id: string, open: boolean) => void
+  renderThread: (note: NoteAnnotation) => ReactNode
+}
+
+/**
+ * Shows a marker for each note on a page and its thread in a popover.
+ * Rendered inside <Page>, like MarkupLayer.
+ */
+const NoteLayer = ({ notes, openNoteId, onOpenChange, renderThread }: NoteLayerProps) => {
+  const context = usePageContext()
+  const page = context?.page
+  if (!context || !page || notes.length === 0) {
+    return null
+  }
+  const viewport = page.getViewport({ scale: context.scale, rotation: context.rotate })
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {notes.map((note) => {
+        const [left, top] = viewport.convertToViewportPoint(...note.point)
+        return (
+          <Popover key={note.id} open={openNoteId === note.id} onOpenChange={(open) => onOpenChange(note.id, open)}>
+            <PopoverTrigger asChild>
+              <button
+                type="button"
+                data-note-marker
+                className={cn(
+                  "pointer-events-auto absolute flex h-6 w-6 items-center justify-center rounded-sm shadow-md",
+                  "text-black transition-transform hover:scale-110",
+                  note.status === "resolved" && "opacity-50"
+                )}
+                style={{ left, top, backgroundColor: note.color }}
+                aria-label={`Note by ${note.author || "you"}`}
+              >
+                <MessageSquare className="h-3.5 w-3.5" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent side="right" align="start" className="w-80">
+              {renderThread(note)}
+            </PopoverContent>
+          </Popover>
+        )
+      })}
+    </div>
+  )
+}
+
+export default NoteLayer
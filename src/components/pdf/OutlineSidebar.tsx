@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react"
+import { ChevronRight, ExternalLink } from "lucide-react"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from "@/components/ui/sidebar"
+import { cn } from "@/lib/utils"
+import type { OutlineNode } from "@/hooks/use-pdf-outline"
+
+interface OutlineSidebarProps {
+  outline: OutlineNode[]
+  isLoading: boolean
+  activeId: string | null
+  onSelect: (node: OutlineNode) => void
+}
+
+interface OutlineEntryProps {
+  node: OutlineNode
+  depth: number
+  activeId: string | null
+  expanded: Set<string>
+  onToggle: (id: string, open: boolean) => void
+  onSelect: (node: OutlineNode) => void
+}
+
+const ancestorIds = (id: string) => {
+  const parts = id.split(".")
+  return parts.slice(0, -1).map((_, index) => parts.slice(0, index + 1).join("."))
+}
+
+const OutlineEntry = ({ node, depth, activeId, expanded, onToggle, onSelect }: OutlineEntryProps) => {
+  const hasChildren = node.children.length > 0
+  const isOpen = expanded.has(node.id)
+  const isActive = node.id === activeId
+  const label = (
+    <>
+      <span className={cn("truncate", node.bold && "font-semibold", node.italic && "italic")}>{node.title}</span>
+      {node.url && <ExternalLink className="ml-auto h-3 w-3 shrink-0 opacity-60" />}
+    </>
+  )
+
+  const children = hasChildren && (
+    <CollapsibleContent>
+      <SidebarMenuSub>
+        {node.children.map((child) => (
+          <OutlineEntry
+            key={child.id}
+            node={child}
+            depth={depth + 1}
+            activeId={activeId}
+            expanded={expanded}
+            onToggle={onToggle}
+            onSelect={onSelect}
+          />
+        ))}
+      </SidebarMenuSub>
+    </CollapsibleContent>
+  )
+
+  const trigger = hasChildren && (
+    <CollapsibleTrigger asChild>
+      <SidebarMenuAction
+        className="transition-transform data-[state=open]:rotate-90"
+        aria-label={isOpen ? `Collapse ${node.title}` : `Expand ${node.title}`}
+      >
+        <ChevronRight />
+      </SidebarMenuAction>
+    </CollapsibleTrigger>
+  )
+
+  if (depth === 0) {
+    return (
+      <Collapsible asChild open={isOpen} onOpenChange={(open) => onToggle(node.id, open)}>
+        <SidebarMenuItem>
+          <SidebarMenuButton
+            isActive={isActive}
+            onClick={() => onSelect(node)}
+            title={node.title}
+            disabled={!node.target && !node.url}
+          >
+            {label}
+          </SidebarMenuButton>
+          {trigger}
+          {children}
+        </SidebarMenuItem>
+      </Collapsible>
+    )
+  }
+
+  return (
+    <Collapsible asChild open={isOpen} onOpenChange={(open) => onToggle(node.id, open)}>
+      <SidebarMenuSubItem className="relative">
+        <SidebarMenuSubButton asChild isActive={isActive} size="sm">
+          <button
+            type="button"
+            onClick={() => onSelect(node)}
+            title={node.title}
+            disabled={!node.target && !node.url}
+            className={cn("w-full text-left", hasChildren && "pr-7")}
+          >
+            {label}
+          </button>
+        </SidebarMenuSubButton>
+        {hasChildren && (
+          <CollapsibleTrigger asChild>
+            <button
+              type="button"
+              className="absolute right-1 top-1 flex h-5 w-5 items-center justify-center rounded-md text-sidebar-foreground hover:bg-sidebar-accent transition-transform data-[state=open]:rotate-90"
+              aria-label={isOpen ? `Collapse ${node.title}` : `Expand ${node.title}`}
+            >
+              <ChevronRight className="h-3.5 w-3.5" />
+            </button>
+          </CollapsibleTrigger>
+        )}
+        {children}
+      </SidebarMenuSubItem>
+    </Collapsible>
+  )
+}
+
+const OutlineSidebar = ({ outline, isLoading, activeId, onSelect }: OutlineSidebarProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  // Keep the entry for the current page visible while reading.
+  useEffect(() => {
+    if (!activeId) {
+      return
+    }
+    setExpanded((prev) => {
+      const missing = ancestorIds(activeId).filter((id) => !prev.has(id))
+      return missing.length > 0 ? new Set([...prev, ...missing]) : prev
+    })
+  }, [activeId])
+
+  const onToggle = (id: string, open: boolean) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (open) {
+        next.add(id)
+      } else {
+        next.delete(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <Sidebar collapsible="none" className="border-r border-sidebar-border">
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Outline</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {isLoading &&
+                Array.from({ length: 5 }, (_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              {!isLoading && outline.length === 0 && (
+                <p className="px-2 py-1 text-xs text-sidebar-foreground/70">This document has no outline.</p>
+              )}
+              {outline.map((node) => (
+                <OutlineEntry
+                  key={node.id}
+                  node={node}
+                  depth={0}
+                  activeId={activeId}
+                  expanded={expanded}
+                  onToggle={onToggle}
+                  onSelect={onSelect}
+                />
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  )
+}
+
+export default OutlineSidebar
@@ -0,0 +1,99 @@
+import { useEffect, useId, useState } from "react"
+import { Lock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface PasswordDialogProps {
+  open: boolean
+  isIncorrect: boolean
+  documentName: string
+  onSubmit: (password: string, remember: boolean) => void
+  onCancel: () => void
+}
+
+const PasswordDialog = ({ open, isIncorrect, documentName, onSubmit, onCancel }: PasswordDialogProps) => {
+  const [password, setPassword] = useState("")
+  const [remember, setRemember] = useState(false)
+  // Each viewer renders its own dialog.
+  const id = useId()
+
+  // Each prompt starts empty, including the retry after a wrong password.
+  useEffect(() => {
+    if (open) {
+      setPassword("")
+    }
+  }, [open, isIncorrect])
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (password) {
+      onSubmit(password, remember)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Password required
+            </DialogTitle>
+            <DialogDescription className="break-all">
+              “{documentName}” is protected. Enter its password to open it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-password`}>Password</Label>
+            <Input
+              id={`${id}-password`}
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              aria-invalid={isIncorrect}
+              aria-describedby={isIncorrect ? `${id}-error` : undefined}
+            />
+            {isIncorrect && (
+              <p id={`${id}-error`} className="text-sm text-destructive" role="alert">
+                That password is incorrect. Try again.
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`${id}-remember`}
+              checked={remember}
+              onCheckedChange={(checked) => setRemember(checked === true)}
+            />
+            <Label htmlFor={`${id}-remember`} className="font-normal">
+              Remember for this session
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Unlock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PasswordDialog
@@ -0,0 +1,52 @@
+import { RotateCcw, RotateCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+interface RotationMenuProps {
+  pageNumber: number
+  onRotatePage: (delta: number) => void
+  onRotateDocument: (delta: number) => void
+  onReset: () => void
+}
+
+const RotationMenu = ({ pageNumber, onRotatePage, onRotateDocument, onReset }: RotationMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="sm" className="text-primary hover:bg-primary/20" aria-label="Rotate">
+        <RotateCw className="h-4 w-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>Page {pageNumber}</DropdownMenuLabel>
+      <DropdownMenuItem onSelect={() => onRotatePage(90)}>
+        <RotateCw className="mr-2 h-4 w-4" />
+        Rotate clockwise
+      </DropdownMenuItem>
+      <DropdownMenuItem onSelect={() => onRotatePage(-90)}>
+        <RotateCcw className="mr-2 h-4 w-4" />
+        Rotate counterclockwise
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuLabel>All pages</DropdownMenuLabel>
+      <DropdownMenuItem onSelect={() => onRotateDocument(90)}>
+        <RotateCw className="mr-2 h-4 w-4" />
+        Rotate clockwise
+      </DropdownMenuItem>
+      <DropdownMenuItem onSelect={() => onRotateDocument(-90)}>
+        <RotateCcw className="mr-2 h-4 w-4" />
+        Rotate counterclockwise
+      </DropdownMenuItem>
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onSelect={onReset}>Reset rotation</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+)
+
+export default RotationMenu
@@ -0,0 +1,82 @@
+import { forwardRef } from "react"
+import { ChevronDown, ChevronUp, Search, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { PDFSearchState } from "@/hooks/use-pdf-search"
+
+interface SearchBarProps {
+  search: PDFSearchState
+}
+
+const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(({ search }, ref) => {
+  const { query, setQuery, matches, activeIndex, isIndexing, next, previous } = search
+  const hasQuery = query.trim().length > 0
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault()
+      if (event.shiftKey) {
+        previous()
+      } else {
+        next()
+      }
+    } else if (event.key === "Escape") {
+      setQuery("")
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-primary/60" />
+        <Input
+          ref={ref}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search document"
+          aria-label="Search document"
+          className="h-9 w-48 pl-8 pr-7 bg-[#1a1a1a] text-foreground"
+        />
+        {hasQuery && (
+          <button
+            type="button"
+            onClick={() => setQuery("")}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-primary/60 hover:text-primary"
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {hasQuery && (
+        <span className="min-w-[4.5rem] text-center text-xs text-primary/80 tabular-nums">
+          {matches.length > 0 ? `${activeIndex + 1} / ${matches.length}` : isIndexing ? "Searching…" : "No results"}
+        </span>
+      )}
+      <Button
+        onClick={previous}
+        disabled={matches.length === 0}
+        variant="ghost"
+        size="sm"
+        className="text-primary hover:bg-primary/20"
+        aria-label="Previous match"
+      >
+        <ChevronUp className="h-4 w-4" />
+      </Button>
+      <Button
+        onClick={next}
+        disabled={matches.length === 0}
+        variant="ghost"
+        size="sm"
+        className="text-primary hover:bg-primary/20"
+        aria-label="Next match"
+      >
+        <ChevronDown className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+})
+SearchBar.displayName = "SearchBar"
+
+export default SearchBar
@@ -0,0 +1,47 @@
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { cn } from "@/lib/utils"
+import type { PDFSearchState } from "@/hooks/use-pdf-search"
+
+interface SearchResultsProps {
+  search: PDFSearchState
+}
+
+const SearchResults = ({ search }: SearchResultsProps) => {
+  const { matches, activeIndex, goToMatch, isIndexing } = search
+
+  return (
+    <div className="flex h-full w-72 flex-col border-l border-[#00ffd5]/30 bg-[#121212]">
+      <div className="px-3 py-2 text-xs text-[#00ffd5]/80 border-b border-[#00ffd5]/30">
+        {matches.length} {matches.length === 1 ? "match" : "matches"}
+        {isIndexing && " (still searching…)"}
+      </div>
+      <ScrollArea className="flex-1">
+        <ul className="p-2 space-y-1">
+          {matches.map((match, index) => (
+            <li key={match.id}>
+              <button
+                type="button"
+                onClick={() => goToMatch(index)}
+                className={cn(
+                  "w-full rounded-md px-2 py-1.5 text-left text-xs text-white/70 hover:bg-primary/10",
+                  index === activeIndex && "bg-primary/20 text-white"
+                )}
+              >
+                <span className="block text-[10px] uppercase tracking-wide text-[#00ffd5]/70">
+                  Page {match.pageNumber}
+                </span>
+                <span className="line-clamp-2">
+                  {match.snippet.before}
+                  <mark className="rounded-sm bg-yellow-300/80 px-0.5 text-black">{match.snippet.match}</mark>
+                  {match.snippet.after}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  )
+}
+
+export default SearchResults
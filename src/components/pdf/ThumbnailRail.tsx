@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from "react"
+import { Thumbnail } from "react-pdf"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { cn } from "@/lib/utils"
+import { getPageSize, type PageSize } from "@/hooks/use-page-sizes"
+import { useVisiblePages } from "@/hooks/use-visible-pages"
+
+const RAIL_PADDING = 24
+// Thumbnails are re-rendered when the rail is resized; snapping the width
+// keeps dragging the handle from re-rendering on every pixel.
+const WIDTH_STEP = 16
+
+interface ThumbnailRailProps {
+  pdf: PDFDocumentProxy
+  pageSizes: PageSize[]
+  getRotation: (pageNumber: number) => number | undefined
+  currentPage: number
+  onSelect: (pageNumber: number) => void
+}
+
+const ThumbnailRail = ({ pdf, pageSizes, getRotation, currentPage, onSelect }: ThumbnailRailProps) => {
+  const rootRef = useRef<HTMLDivElement>(null)
+  const [viewport, setViewport] = useState<HTMLElement | null>(null)
+  const [thumbWidth, setThumbWidth] = useState(120)
+  const visiblePages = useVisiblePages(viewport, pdf.numPages, "200px 0px")
+
+  useEffect(() => {
+    const root = rootRef.current
+    if (!root) {
+      return
+    }
+    setViewport(root.querySelector<HTMLElement>("[data-radix-scroll-area-viewport]"))
+    const observer = new ResizeObserver(([entry]) => {
+      const width = entry.contentRect.width - RAIL_PADDING
+      setThumbWidth(Math.max(WIDTH_STEP * 4, Math.floor(width / WIDTH_STEP) * WIDTH_STEP))
+    })
+    observer.observe(root)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    viewport
+      ?.querySelector(`[data-page-slot="${currentPage}"]`)
+      ?.scrollIntoView({ block: "nearest" })
+  }, [viewport, currentPage])
+
+  return (
+    <ScrollArea ref={rootRef} className="h-full bg-[#121212]">
+      <ol className="flex flex-col items-center gap-3 py-3">
+        {Array.from({ length: pdf.numPages }, (_, index) => {
+          const pageNumber = index + 1
+          const size = getPageSize(pageSizes, pageNumber)
+          const height = Math.round((size.height / size.width) * thumbWidth)
+          const isActive = pageNumber === currentPage
+
+          return (
+            <li key={pageNumber} data-page-slot={pageNumber} className="flex flex-col items-center gap-1">
+              <div
+                className={cn(
+                  "overflow-hidden rounded-sm border-2 border-transparent bg-[#2a2a2a]",
+                  isActive && "border-[#00ffd5]"
+                )}
+                style={{ width: thumbWidth, height }}
+              >
+                {visiblePages.has(pageNumber) && (
+                  <Thumbnail
+                    pdf={pdf}
+                    pageNumber={pageNumber}
+                    width={thumbWidth}
+                    rotate={getRotation(pageNumber)}
+                    devicePixelRatio={1}
+                    onItemClick={() => onSelect(pageNumber)}
+                    loading=""
+                  />
+                )}
+              </div>
+              <span className={cn("text-xs text-white/60", isActive && "text-[#00ffd5]")}>{pageNumber}</span>
+            </li>
+          )
+        })}
+      </ol>
+    </ScrollArea>
+  )
+}
+
+export default ThumbnailRail
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react"
+import { ChevronDown, ZoomIn, ZoomOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+import { clampZoom, MAX_ZOOM, MIN_ZOOM, type ZoomMode } from "@/lib/zoom"
+
+interface ZoomControlProps {
+  zoomLevel: number
+  zoomMode: ZoomMode
+  onZoomStep: (direction: "in" | "out") => void
+  onZoomChange: (zoom: number) => void
+  onZoomModeChange: (mode: ZoomMode) => void
+}
+
+const MENU_PRESETS = [50, 75, 100, 125, 150, 200, 300, 400]
+
+const ZoomControl = ({ zoomLevel, zoomMode, onZoomStep, onZoomChange, onZoomModeChange }: ZoomControlProps) => {
+  const [draft, setDraft] = useState(String(Math.round(zoomLevel)))
+
+  useEffect(() => {
+    setDraft(String(Math.round(zoomLevel)))
+  }, [zoomLevel])
+
+  const commitDraft = () => {
+    const value = Number.parseFloat(draft)
+    if (Number.isFinite(value) && value > 0) {
+      onZoomChange(clampZoom(value))
+    } else {
+      setDraft(String(Math.round(zoomLevel)))
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        onClick={() => onZoomStep("out")}
+        disabled={zoomLevel <= MIN_ZOOM}
+        variant="ghost"
+        size="sm"
+        className="text-primary hover:bg-primary/20"
+        aria-label="Zoom out"
+      >
+        <ZoomOut className="h-4 w-4" />
+      </Button>
+      <div className="relative">
+        <Input
+          value={draft}
+          onChange={(event) => setDraft(event.target.value.replace(/[^\d.]/g, ""))}
+          onBlur={commitDraft}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault()
+              commitDraft()
+            } else if (event.key === "Escape") {
+              setDraft(String(Math.round(zoomLevel)))
+            }
+          }}
+          inputMode="decimal"
+          aria-label="Zoom percentage"
+          className="h-9 w-16 pr-5 text-right tabular-nums"
+        />
+        <span className="pointer-events-none absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="px-1 text-primary hover:bg-primary/20" aria-label="Zoom options">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onSelect={() => onZoomModeChange("fit-width")}
+            className={cn(zoomMode === "fit-width" && "font-semibold")}
+          >
+            Fit width
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => onZoomModeChange("fit-page")}
+            className={cn(zoomMode === "fit-page" && "font-semibold")}
+          >
+            Fit page
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {MENU_PRESETS.map((preset) => (
+            <DropdownMenuItem
+              key={preset}
+              onSelect={() => onZoomChange(preset)}
+              className={cn(zoomMode === "custom" && Math.round(zoomLevel) === preset && "font-semibold")}
+            >
+              {preset}%
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        onClick={() => onZoomStep("in")}
+        disabled={zoomLevel >= MAX_ZOOM}
+        variant="ghost"
+        size="sm"
+        className="text-primary hover:bg-primary/20"
+        aria-label="Zoom in"
+      >
+        <ZoomIn className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+export default ZoomControl
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { formatBytes } from "@/lib/format"
+import {
+  clearPDFCache,
+  deleteCachedDocument,
+  getCacheQuota,
+  listCachedDocuments,
+  setCacheQuota,
+  type CachedDocumentInfo,
+} from "@/lib/pdfCache"
+import { getSourceName } from "@/lib/pdfSource"
+
+const MB = 1024 * 1024
+
+const CacheSettings = () => {
+  const [documents, setDocuments] = useState<CachedDocumentInfo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [quota, setQuota] = useState(getCacheQuota)
+  const [quotaInput, setQuotaInput] = useState(() => String(Math.round(getCacheQuota() / MB)))
+  const { toast } = useToast()
+  const used = documents.reduce((sum, entry) => sum + entry.size, 0)
+
+  const refresh = useCallback(async () => {
+    try {
+      setDocuments(await listCachedDocuments())
+    } catch (err) {
+      console.error("Error reading PDF cache:", err)
+      toast({
+        title: "Cache unavailable",
+        description: "The browser did not allow access to offline storage",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const saveQuota = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const megabytes = Number(quotaInput)
+    if (!Number.isFinite(megabytes) || megabytes <= 0) {
+      toast({ title: "Invalid size", description: "Enter a size in MB above zero", variant: "destructive" })
+      return
+    }
+    const bytes = Math.round(megabytes * MB)
+    try {
+      await setCacheQuota(bytes)
+    } catch (err) {
+      console.error("Error saving PDF cache size:", err)
+      toast({
+        title: "Cache size not saved",
+        description: "The browser did not allow changes to offline storage",
+        variant: "destructive",
+      })
+      // The limit may have been stored even though making room failed.
+      setQuota(getCacheQuota())
+      return
+    }
+    setQuota(bytes)
+    await refresh()
+    toast({ title: "Cache size saved", description: `Up to ${formatBytes(bytes)} of documents are kept offline` })
+  }
+
+  const removeDocument = async (url: string) => {
+    try {
+      await deleteCachedDocument(url)
+    } catch (err) {
+      console.error("Error removing cached PDF:", err)
+      toast({
+        title: "Document not removed",
+        description: "The browser did not allow changes to offline storage",
+        variant: "destructive",
+      })
+    }
+    await refresh()
+  }
+
+  const clearAll = async () => {
+    try {
+      await clearPDFCache()
+      toast({ title: "Cache cleared", description: "Documents will be downloaded again the next time they open" })
+    } catch (err) {
+      console.error("Error clearing PDF cache:", err)
+      toast({
+        title: "Cache not cleared",
+        description: "The browser did not allow changes to offline storage",
+        variant: "destructive",
+      })
+    }
+    await refresh()
+  }
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-white">Offline cache</h2>
+        <p className="text-sm text-white/60">
+          Opened documents are kept in this browser so they reopen instantly and work offline. The least
+          recently opened ones are removed once the cache is full.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-white/70 tabular-nums">
+          <span>{formatBytes(used)} used</span>
+          <span>{formatBytes(quota)} limit</span>
+        </div>
+        <Progress value={Math.min(100, (used / quota) * 100)} className="h-2 bg-[#00ffd5]/20" />
+      </div>
+
+      <form onSubmit={saveQuota} className="flex items-end gap-2">
+        <label className="flex flex-col gap-1 text-sm text-white/70">
+          Cache size (MB)
+          <Input
+            type="number"
+            min={1}
+            value={quotaInput}
+            onChange={(event) => setQuotaInput(event.target.value)}
+            className="w-32 bg-[#1a1a1a] text-white"
+          />
+        </label>
+        <Button type="submit" variant="secondary" size="sm">
+          Save
+        </Button>
+      </form>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-white/60">Document</TableHead>
+            <TableHead className="text-white/60 text-right">Size</TableHead>
+            <TableHead className="text-white/60">Last opened</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {documents.map((entry) => (
+            <TableRow key={entry.url} className="border-white/10 hover:bg-white/5">
+              <TableCell className="max-w-xs truncate text-white" title={entry.url}>
+                {getSourceName({ kind: "url", url: entry.url })}
+              </TableCell>
+              <TableCell className="text-right text-white/70 tabular-nums">{formatBytes(entry.size)}</TableCell>
+              <TableCell className="text-white/70">
+                {formatDistanceToNow(entry.lastAccessed, { addSuffix: true })}
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white/60 hover:bg-white/10 hover:text-white"
+                  onClick={() => removeDocument(entry.url)}
+                  aria-label={`Remove ${entry.url} from the cache`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+          {!isLoading && documents.length === 0 && (
+            <TableRow className="border-white/10 hover:bg-transparent">
+              <TableCell colSpan={4} className="py-8 text-center text-white/50">
+                No documents cached yet
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <Button variant="destructive" size="sm" onClick={clearAll} disabled={documents.length === 0}>
+        Clear cache
+      </Button>
+    </section>
+  )
+}
+
+export default CacheSettings
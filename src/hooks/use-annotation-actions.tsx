@@ -0,0 +1,196 @@
+import * as React from "react"
+import type { PageViewport, PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import { useAnnotations } from "@/hooks/use-annotations"
+import { useToast } from "@/hooks/use-toast"
+import { clientRectToPDF, mergeLineRects } from "@/lib/annotationGeometry"
+import { AnnotationFileError, parseAnnotationJSON, toAnnotationJSON } from "@/lib/annotationJSON"
+import {
+  isDrawing,
+  isNote,
+  isPageMark,
+  type Annotation,
+  type AnnotationFileFormat,
+  type MarkupType,
+} from "@/lib/annotations"
+import { getCommentAuthor } from "@/lib/commentAuthor"
+import { readAnnotations } from "@/lib/pdfAnnotations"
+import { downloadFile } from "@/lib/pdfExport"
+import { getSelectedTextRects } from "@/lib/textSelection"
+import { parseXFDF, toXFDF } from "@/lib/xfdf"
+
+// Problems listed when an annotation file doesn't validate; the rest go to the console.
+const MAX_SHOWN_ISSUES = 5
+
+const groupByPage = <T extends Annotation>(annotations: T[]) => {
+  const byPage = new Map<number, T[]>()
+  annotations.forEach((annotation) => {
+    byPage.set(annotation.pageNumber, [...(byPage.get(annotation.pageNumber) ?? []), annotation])
+  })
+  return byPage
+}
+
+/** A rendered page and how it is shown, for turning screen positions into PDF coordinates. */
+export interface PageTarget {
+  page: PDFPageProxy
+  pageNumber: number
+  bounds: DOMRect
+  viewport: PageViewport
+}
+
+interface AnnotationActionsOptions {
+  pdf: PDFDocumentProxy | null
+  documentHash: string | null
+  // Names exported annotation files.
+  fileName?: string
+  // The rendered page an element is on, if any.
+  getPageAt: (element: Element | null) => PageTarget | null
+}
+
+/**
+ * The document's annotations, grouped the way the viewer shows them, and
+ * what can be done with them besides drawing and commenting: marking selected
+ * text, and importing and exporting them. Failed saves are reported in a toast.
+ */
+export function useAnnotationActions({ pdf, documentHash, fileName, getPageAt }: AnnotationActionsOptions) {
+  const store = useAnnotations(documentHash)
+  const { annotations, addAnnotations } = store
+  const { toast } = useToast()
+  const markups = React.useMemo(() => annotations.filter(isPageMark), [annotations])
+  const notes = React.useMemo(() => annotations.filter(isNote), [annotations])
+  const markupsByPage = React.useMemo(() => groupByPage(markups), [markups])
+  const notesByPage = React.useMemo(() => groupByPage(notes), [notes])
+  const drawingsByPage = React.useMemo(() => groupByPage(markups.filter(isDrawing)), [markups])
+
+  const saveAnnotations = (saving: Promise<void>) =>
+    saving.catch((err) => {
+      console.error("Error saving annotations:", err)
+      toast({
+        title: "Annotations not saved",
+        description: err instanceof Error ? err.message : "Failed to save the annotations",
+        variant: "destructive",
+      })
+    })
+
+  // Turns the selected text into one annotation per page, stored in PDF
+  // coordinates of the page it was made on.
+  const markSelection = (type: MarkupType, color: string) => {
+    const selection = window.getSelection()
+    const created: Annotation[] = []
+    getSelectedTextRects(selection).forEach(({ layer, rects, text }) => {
+      const target = getPageAt(layer)
+      if (!target) {
+        return
+      }
+      const { page, pageNumber, bounds, viewport } = target
+      const pdfRects = mergeLineRects(
+        rects.map((rect) => clientRectToPDF(rect, bounds, viewport)),
+        page.getViewport({ scale: 1, rotation: page.rotate })
+      )
+      if (pdfRects.length > 0) {
+        created.push({
+          id: crypto.randomUUID(),
+          type,
+          pageNumber,
+          rects: pdfRects,
+          color,
+          text,
+          author: getCommentAuthor() || undefined,
+          createdAt: Date.now(),
+        })
+      }
+    })
+    if (created.length > 0) {
+      void saveAnnotations(addAnnotations(created))
+    }
+    selection?.removeAllRanges()
+  }
+
+  // Adds imported annotations, skipping any that are already here by id, so
+  // importing the same file twice changes nothing.
+  const addImported = async (imported: Annotation[], from: string) => {
+    const known = new Set(annotations.map((annotation) => annotation.id))
+    const found = imported.filter((annotation) => !known.has(annotation.id))
+    if (found.length > 0) {
+      await addAnnotations(found)
+    }
+    toast({
+      title: found.length > 0 ? "Annotations imported" : "No new annotations",
+      description:
+        found.length > 0
+          ? `Imported ${found.length} ${found.length === 1 ? "annotation" : "annotations"} from ${from}`
+          : `${from[0].toUpperCase()}${from.slice(1)} has no annotations that aren't already here`,
+    })
+  }
+
+  // Brings annotations other tools saved in the file into the app.
+  const importAnnotations = async () => {
+    if (!pdf) {
+      return
+    }
+    try {
+      await addImported(await readAnnotations(pdf), "the PDF")
+    } catch (err) {
+      console.error("Error importing annotations:", err)
+      toast({
+        title: "Import failed",
+        description: err instanceof Error ? err.message : "The annotations in this PDF couldn't be read",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const exportAnnotationFile = (format: AnnotationFileFormat) => {
+    const baseName = (fileName ?? "document").replace(/\.pdf$/i, "")
+    if (format === "xfdf") {
+      const xfdf = toXFDF(annotations, fileName)
+      downloadFile(new Blob([xfdf], { type: "application/vnd.adobe.xfdf" }), `${baseName}.xfdf`)
+    } else {
+      const json = toAnnotationJSON(annotations, { name: fileName, hash: documentHash ?? undefined })
+      downloadFile(new Blob([json], { type: "application/json" }), `${baseName}.annotations.json`)
+    }
+  }
+
+  const importAnnotationFile = async (file: File) => {
+    if (!pdf) {
+      return
+    }
+    try {
+      const text = await file.text()
+      const isXFDF = /\.xfdf$/i.test(file.name) || text.trimStart().startsWith("<")
+      const imported = isXFDF ? parseXFDF(text, pdf.numPages) : parseAnnotationJSON(text, pdf.numPages)
+      await addImported(imported, file.name)
+    } catch (err) {
+      console.error("Error importing annotations:", err)
+      const issues = err instanceof AnnotationFileError ? err.issues : []
+      toast({
+        title: err instanceof AnnotationFileError ? err.message : "Import failed",
+        description:
+          issues.length > 0 ? (
+            <ul className="list-disc pl-4 text-xs">
+              {issues.slice(0, MAX_SHOWN_ISSUES).map((issue, index) => (
+                <li key={index}>{issue}</li>
+              ))}
+              {issues.length > MAX_SHOWN_ISSUES && <li>…and {issues.length - MAX_SHOWN_ISSUES} more</li>}
+            </ul>
+          ) : (
+            `${file.name} couldn't be read`
+          ),
+        variant: "destructive",
+      })
+    }
+  }
+
+  return {
+    ...store,
+    markups,
+    notes,
+    markupsByPage,
+    notesByPage,
+    drawingsByPage,
+    saveAnnotations,
+    markSelection,
+    importAnnotations,
+    exportAnnotationFile,
+    importAnnotationFile,
+  }
+}
@@ -0,0 +1,60 @@
+import * as React from "react"
+import type { Annotation } from "@/lib/annotations"
+import { getAnnotations, setAnnotations, subscribeToAnnotations } from "@/lib/annotationStore"
+
+const NO_ANNOTATIONS: Annotation[] = []
+const noop = () => () => {}
+
+/**
+ * The annotations saved for a document, keyed by its content hash. Empty and
+ * read-only until the hash is known and the storage backend has answered.
+ * Changes show up at once; the returned promises settle when they are saved.
+ */
+export function useAnnotations(documentHash: string | null) {
+  const subscribe = React.useCallback(
+    (listener: () => void) => (documentHash ? subscribeToAnnotations(documentHash, listener) : noop()),
+    [documentHash]
+  )
+  const loaded = React.useSyncExternalStore(subscribe, () => (documentHash ? getAnnotations(documentHash) : null))
+
+  const update = React.useCallback(
+    async (updater: (annotations: Annotation[]) => Annotation[]) => {
+      const current = documentHash ? getAnnotations(documentHash) : null
+      if (!documentHash || !current) {
+        throw new Error("Annotations have not loaded yet")
+      }
+      await setAnnotations(documentHash, updater(current))
+    },
+    [documentHash]
+  )
+
+  const addAnnotations = React.useCallback(
+    (added: Annotation[]) => update((annotations) => [...annotations, ...added]),
+    [update]
+  )
+
+  const updateAnnotation = React.useCallback(
+    (id: string, change: (annotation: Annotation) => Annotation) =>
+      update((annotations) => annotations.map((annotation) => (annotation.id === id ? change(annotation) : annotation))),
+    [update]
+  )
+
+  const removeAnnotation = React.useCallback(
+    (id: string) => update((annotations) => annotations.filter((annotation) => annotation.id !== id)),
+    [update]
+  )
+
+  const removeAnnotations = React.useCallback(
+    (ids: string[]) => update((annotations) => annotations.filter((annotation) => !ids.includes(annotation.id))),
+    [update]
+  )
+
+  return {
+    annotations: loaded ?? NO_ANNOTATIONS,
+    isReady: loaded !== null,
+    addAnnotations,
+    updateAnnotation,
+    removeAnnotation,
+    removeAnnotations,
+  }
+}
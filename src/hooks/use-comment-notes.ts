@@ -0,0 +1,97 @@
+import * as React from "react"
+import type { PageTarget } from "@/hooks/use-annotation-actions"
+import { clientPointToPDF } from "@/lib/annotationGeometry"
+import { isNote, NOTE_COLOR, type Annotation, type CommentStatus, type NoteAnnotation } from "@/lib/annotations"
+
+interface CommentNotesOptions {
+  notes: NoteAnnotation[]
+  addAnnotations: (added: Annotation[]) => Promise<void>
+  updateAnnotation: (id: string, change: (annotation: Annotation) => Annotation) => Promise<void>
+  removeAnnotation: (id: string) => Promise<void>
+  // Reports a failed save; see useAnnotationActions.
+  saveAnnotations: (saving: Promise<void>) => Promise<void>
+  getPageAt: (element: Element | null) => PageTarget | null
+}
+
+/**
+ * Sticky-note comments: the comment tool that pins a note to a page, the
+ * one note whose thread is open, and posting to and resolving threads.
+ */
+export function useCommentNotes(options: CommentNotesOptions) {
+  const { notes, addAnnotations, updateAnnotation, removeAnnotation, saveAnnotations, getPageAt } = options
+  const [isCommentMode, setIsCommentMode] = React.useState(false)
+  const [openNoteId, setOpenNoteId] = React.useState<string | null>(null)
+
+  // With the comment tool on, a click on a page pins a new note there and
+  // opens it for the first comment.
+  const placeNote = (event: React.MouseEvent<HTMLElement>) => {
+    const element = event.target as HTMLElement
+    if (!isCommentMode || element.closest("[data-note-marker]")) {
+      return
+    }
+    const target = getPageAt(element)
+    if (!target) {
+      return
+    }
+    const note: NoteAnnotation = {
+      id: crypto.randomUUID(),
+      type: "note",
+      pageNumber: target.pageNumber,
+      point: clientPointToPDF(event.clientX, event.clientY, target.bounds, target.viewport),
+      color: NOTE_COLOR,
+      author: "",
+      text: "",
+      createdAt: Date.now(),
+      status: "open",
+      replies: [],
+    }
+    event.preventDefault()
+    setIsCommentMode(false)
+    void saveAnnotations(addAnnotations([note]))
+    setOpenNoteId(note.id)
+  }
+
+  // A note closed before its first comment was posted is dropped.
+  const onNoteOpenChange = (id: string, open: boolean) => {
+    if (open) {
+      setOpenNoteId(id)
+      return
+    }
+    setOpenNoteId((current) => (current === id ? null : current))
+    if (notes.find((note) => note.id === id)?.text === "") {
+      void saveAnnotations(removeAnnotation(id))
+    }
+  }
+
+  const updateNote = (id: string, change: (note: NoteAnnotation) => NoteAnnotation) =>
+    void saveAnnotations(updateAnnotation(id, (annotation) => (isNote(annotation) ? change(annotation) : annotation)))
+
+  const postComment = (note: NoteAnnotation, text: string, author: string) => {
+    const now = Date.now()
+    updateNote(note.id, (current) =>
+      current.text === ""
+        ? { ...current, text, author, createdAt: now }
+        : { ...current, replies: [...current.replies, { id: crypto.randomUUID(), author, text, createdAt: now }] }
+    )
+  }
+
+  const setNoteStatus = (note: NoteAnnotation, status: CommentStatus) =>
+    updateNote(note.id, (current) => ({ ...current, status }))
+
+  const deleteNote = (note: NoteAnnotation) => {
+    setOpenNoteId(null)
+    void saveAnnotations(removeAnnotation(note.id))
+  }
+
+  return {
+    isCommentMode,
+    setIsCommentMode,
+    openNoteId,
+    openNote: setOpenNoteId,
+    placeNote,
+    onNoteOpenChange,
+    postComment,
+    setNoteStatus,
+    deleteNote,
+  }
+}
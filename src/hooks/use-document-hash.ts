@@ -0,0 +1,33 @@
+import * as React from "react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { hashDocument } from "@/lib/documentHash"
+import { getLoadedData } from "@/lib/pdfjs"
+
+/**
+ * Content hash of the loaded document, or null until it has been computed.
+ * Comes once the whole file has loaded, which for a streamed document can be
+ * well after its first pages show.
+ */
+export function useDocumentHash(pdf: PDFDocumentProxy | null) {
+  const [hash, setHash] = React.useState<{ pdf: PDFDocumentProxy; value: string } | null>(null)
+
+  React.useEffect(() => {
+    if (!pdf) {
+      return
+    }
+    let cancelled = false
+    getLoadedData(pdf)
+      .then(hashDocument)
+      .then((value) => {
+        if (!cancelled) {
+          setHash({ pdf, value })
+        }
+      })
+      .catch((err) => console.warn("Could not hash PDF:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [pdf])
+
+  return hash?.pdf === pdf ? hash.value : null
+}
@@ -0,0 +1,155 @@
+import * as React from "react"
+import { isWebURL } from "@/lib/pdfSource"
+import type { ViewParams } from "@/lib/viewParams"
+
+const STORAGE_KEY = "pdf-viewer:tabs"
+
+export interface DocumentTab {
+  id: string
+  url: string
+  // Last page, zoom and search reported by the tab's viewer.
+  view: ViewParams
+  // Page, zoom and search the viewer should move to. Replaced only when
+  // something outside the viewer asks for a view, such as a link.
+  requestedView: ViewParams
+  // Set while the tab shows a local file instead of `url`. Local files aren't
+  // stored, so a restored tab goes back to `url`.
+  fileName: string | null
+}
+
+interface TabsState {
+  tabs: DocumentTab[]
+  activeId: string | null
+}
+
+interface StoredTab {
+  id: string
+  url: string
+  view: ViewParams
+}
+
+const createTab = (url: string, view: ViewParams = {}): DocumentTab => ({
+  id: crypto.randomUUID(),
+  url,
+  view,
+  requestedView: view,
+  fileName: null,
+})
+
+const readTabs = (): TabsState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as {
+      tabs: StoredTab[]
+      activeId: string | null
+    } | null
+    if (!stored || !Array.isArray(stored.tabs)) {
+      return { tabs: [], activeId: null }
+    }
+    const tabs = stored.tabs
+      // Tabs saved from a link before links were checked may hold other schemes.
+      .filter((tab) => typeof tab.id === "string" && typeof tab.url === "string" && isWebURL(tab.url))
+      .map((tab) => ({ ...tab, view: tab.view ?? {}, requestedView: tab.view ?? {}, fileName: null }))
+    const activeId = tabs.some((tab) => tab.id === stored.activeId) ? stored.activeId : (tabs[0]?.id ?? null)
+    return { tabs, activeId }
+  } catch {
+    return { tabs: [], activeId: null }
+  }
+}
+
+const writeTabs = ({ tabs, activeId }: TabsState) => {
+  const stored: StoredTab[] = tabs.map(({ id, url, view }) => ({ id, url, view }))
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ tabs: stored, activeId }))
+}
+
+/**
+ * The open documents, in tab order, remembered in localStorage so they come
+ * back on reload.
+ */
+export function useDocumentTabs() {
+  const [state, setState] = React.useState<TabsState>(readTabs)
+
+  React.useEffect(() => {
+    writeTabs(state)
+  }, [state])
+
+  const updateTab = React.useCallback(
+    (id: string, patch: Partial<Omit<DocumentTab, "id">>) =>
+      setState((prev) => ({
+        ...prev,
+        tabs: prev.tabs.map((tab) => (tab.id === id ? { ...tab, ...patch } : tab)),
+      })),
+    []
+  )
+
+  // Always adds a tab, so the same document can be open twice for comparison.
+  const openTab = React.useCallback((url: string, view?: ViewParams) => {
+    const tab = createTab(url, view)
+    setState((prev) => ({ tabs: [...prev.tabs, tab], activeId: tab.id }))
+  }, [])
+
+  /**
+   * Switches to a tab showing `url`, opening one if there is none, and moves
+   * it to `view`. Used for links, which shouldn't pile up duplicate tabs.
+   */
+  const showDocument = React.useCallback((url: string, view: ViewParams = {}) => {
+    setState((prev) => {
+      const existing = prev.tabs.find((tab) => tab.url === url && tab.fileName === null)
+      if (!existing) {
+        const tab = createTab(url, view)
+        return { tabs: [...prev.tabs, tab], activeId: tab.id }
+      }
+      const hasView = Object.keys(view).length > 0
+      return {
+        tabs: hasView
+          ? prev.tabs.map((tab) => (tab.id === existing.id ? { ...tab, requestedView: view } : tab))
+          : prev.tabs,
+        activeId: existing.id,
+      }
+    })
+  }, [])
+
+  const activateTab = React.useCallback((id: string) => setState((prev) => ({ ...prev, activeId: id })), [])
+
+  // Closing the active tab activates its right neighbour, or the left one at the end.
+  const closeTab = React.useCallback(
+    (id: string) =>
+      setState((prev) => {
+        const index = prev.tabs.findIndex((tab) => tab.id === id)
+        if (index === -1) {
+          return prev
+        }
+        const tabs = prev.tabs.filter((tab) => tab.id !== id)
+        const activeId =
+          prev.activeId === id ? (tabs[Math.min(index, tabs.length - 1)]?.id ?? null) : prev.activeId
+        return { tabs, activeId }
+      }),
+    []
+  )
+
+  const moveTab = React.useCallback(
+    (id: string, toIndex: number) =>
+      setState((prev) => {
+        const tab = prev.tabs.find((candidate) => candidate.id === id)
+        if (!tab) {
+          return prev
+        }
+        const tabs = prev.tabs.filter((candidate) => candidate.id !== id)
+        tabs.splice(Math.max(0, Math.min(toIndex, tabs.length)), 0, tab)
+        return { ...prev, tabs }
+      }),
+    []
+  )
+
+  const activeTab = state.tabs.find((tab) => tab.id === state.activeId) ?? null
+
+  return {
+    tabs: state.tabs,
+    activeTab,
+    openTab,
+    showDocument,
+    activateTab,
+    closeTab,
+    moveTab,
+    updateTab,
+  }
+}
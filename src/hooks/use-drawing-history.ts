@@ -0,0 +1,94 @@
+import * as React from "react"
+import type { Annotation, Drawing } from "@/lib/annotations"
+
+interface DrawingChange {
+  added: Drawing[]
+  removed: Drawing[]
+  // Set for eraser strokes, whose erasures are undone together.
+  strokeId?: string
+}
+
+interface History {
+  done: DrawingChange[]
+  undone: DrawingChange[]
+}
+
+interface DrawingHistoryOptions {
+  addAnnotations: (added: Annotation[]) => Promise<void>
+  removeAnnotations: (ids: string[]) => Promise<void>
+}
+
+// Enough to take back a good while of drawing without holding on to every stroke.
+const MAX_HISTORY = 100
+
+const EMPTY_HISTORY: History = { done: [], undone: [] }
+
+// Takes a change back: removes what it added and restores what it removed.
+const revert = ({ added, removed }: DrawingChange, { addAnnotations, removeAnnotations }: DrawingHistoryOptions) =>
+  Promise.all([
+    added.length > 0 ? removeAnnotations(added.map((drawing) => drawing.id)) : undefined,
+    removed.length > 0 ? addAnnotations(removed) : undefined,
+  ]).then(() => undefined)
+
+const invert = (change: DrawingChange): DrawingChange => ({ added: change.removed, removed: change.added })
+
+/**
+ * Drawing and erasing on a document's pages, with undo and redo. The history
+ * only covers this session and starts over when the document changes; other
+ * edits to annotations, such as deleting one from the list, aren't part of it.
+ */
+export function useDrawingHistory(documentHash: string | null, options: DrawingHistoryOptions) {
+  const { addAnnotations, removeAnnotations } = options
+  const [history, setHistory] = React.useState<History>(EMPTY_HISTORY)
+
+  React.useEffect(() => {
+    setHistory(EMPTY_HISTORY)
+  }, [documentHash])
+
+  const record = (change: DrawingChange) =>
+    setHistory(({ done }) => {
+      const last = done[done.length - 1]
+      if (change.strokeId !== undefined && last?.strokeId === change.strokeId) {
+        return { done: [...done.slice(0, -1), { ...last, removed: [...last.removed, ...change.removed] }], undone: [] }
+      }
+      return { done: [...done, change].slice(-MAX_HISTORY), undone: [] }
+    })
+
+  const draw = (drawing: Drawing) => {
+    record({ added: [drawing], removed: [] })
+    return addAnnotations([drawing])
+  }
+
+  // Erasures from the same eraser stroke are undone in one step.
+  const erase = (drawings: Drawing[], strokeId: string) => {
+    record({ added: [], removed: drawings, strokeId })
+    return removeAnnotations(drawings.map((drawing) => drawing.id))
+  }
+
+  const undo = () => {
+    const change = history.done[history.done.length - 1]
+    if (!change) {
+      return Promise.resolve()
+    }
+    setHistory({ done: history.done.slice(0, -1), undone: [...history.undone, change] })
+    return revert(change, { addAnnotations, removeAnnotations })
+  }
+
+  const redo = () => {
+    const change = history.undone[history.undone.length - 1]
+    if (!change) {
+      return Promise.resolve()
+    }
+    setHistory({ done: [...history.done, change], undone: history.undone.slice(0, -1) })
+    return revert(invert(change), { addAnnotations, removeAnnotations })
+  }
+
+  return {
+    draw,
+    erase,
+    undo,
+    redo,
+    canUndo: history.done.length > 0,
+    canRedo: history.undone.length > 0,
+  }
+}
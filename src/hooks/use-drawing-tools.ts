@@ -0,0 +1,75 @@
+import * as React from "react"
+import { useDrawingHistory } from "@/hooks/use-drawing-history"
+import { useLatest } from "@/hooks/use-latest"
+import { DRAWING_COLORS, DRAWING_WIDTHS, type Annotation, type Drawing, type DrawingSettings } from "@/lib/annotations"
+
+const DEFAULT_DRAWING_SETTINGS: DrawingSettings = {
+  tool: "pen",
+  color: DRAWING_COLORS[0].value,
+  width: DRAWING_WIDTHS[1],
+}
+
+interface DrawingToolsOptions {
+  // Only the active viewer takes the undo and redo shortcuts.
+  isActive: boolean
+  addAnnotations: (added: Annotation[]) => Promise<void>
+  removeAnnotations: (ids: string[]) => Promise<void>
+  // Reports a failed save; see useAnnotationActions.
+  saveAnnotations: (saving: Promise<void>) => Promise<void>
+}
+
+/**
+ * Drawing mode: whether it is on, the tool settings, and drawing and erasing
+ * with undo and redo, also from the keyboard while the mode is on.
+ */
+export function useDrawingTools(documentHash: string | null, options: DrawingToolsOptions) {
+  const { isActive, addAnnotations, removeAnnotations, saveAnnotations } = options
+  const [isDrawingMode, setIsDrawingMode] = React.useState(false)
+  const [settings, setSettings] = React.useState<DrawingSettings>(DEFAULT_DRAWING_SETTINGS)
+  const history = useDrawingHistory(documentHash, { addAnnotations, removeAnnotations })
+
+  const draw = (drawing: Drawing) => void saveAnnotations(history.draw(drawing))
+  const erase = (drawings: Drawing[], strokeId: string) => void saveAnnotations(history.erase(drawings, strokeId))
+  const undo = () => void saveAnnotations(history.undo())
+  const redo = () => void saveAnnotations(history.redo())
+  const shortcutsRef = useLatest({ undo, redo })
+
+  // Ctrl+Z undoes drawing and Ctrl+Shift+Z or Ctrl+Y redoes it, unless a text
+  // field has focus and wants the keys for itself.
+  React.useEffect(() => {
+    if (!isActive || !isDrawingMode) {
+      return
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      const isTyping =
+        event.target instanceof HTMLElement && event.target.closest("input, textarea, [contenteditable='true']")
+      if (!(event.ctrlKey || event.metaKey) || isTyping) {
+        return
+      }
+      const key = event.key.toLowerCase()
+      if (key === "z" || key === "y") {
+        event.preventDefault()
+        if (key === "y" || event.shiftKey) {
+          shortcutsRef.current.redo()
+        } else {
+          shortcutsRef.current.undo()
+        }
+      }
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [isActive, isDrawingMode, shortcutsRef])
+
+  return {
+    isDrawingMode,
+    setIsDrawingMode,
+    settings,
+    setSettings,
+    draw,
+    erase,
+    undo,
+    redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+  }
+}
@@ -0,0 +1,95 @@
+import * as React from "react"
+
+export type ZoomGestureHandler = (factor: number, clientX: number, clientY: number) => void
+
+// Safari's non-standard gesture events, fired for trackpad pinches.
+interface GestureEvent extends UIEvent {
+  scale: number
+  clientX: number
+  clientY: number
+}
+
+const WHEEL_SENSITIVITY = 0.002
+const LINE_HEIGHT = 16
+
+const touchDistance = (touches: TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY)
+
+const touchCenter = (touches: TouchList) => ({
+  x: (touches[0].clientX + touches[1].clientX) / 2,
+  y: (touches[0].clientY + touches[1].clientY) / 2,
+})
+
+/**
+ * Reports zoom gestures on an element as multiplicative factors anchored at a
+ * client point: Ctrl/Cmd + wheel (which is also what Chrome and Firefox emit
+ * for trackpad pinches), two-finger touch pinches and Safari gesture events.
+ */
+export function useGestureZoom(element: HTMLElement | null, onZoom: ZoomGestureHandler) {
+  const onZoomRef = React.useRef(onZoom)
+  onZoomRef.current = onZoom
+
+  React.useEffect(() => {
+    if (!element) {
+      return
+    }
+
+    const onWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) {
+        return
+      }
+      event.preventDefault()
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * LINE_HEIGHT : event.deltaY
+      onZoomRef.current(Math.exp(-delta * WHEEL_SENSITIVITY), event.clientX, event.clientY)
+    }
+
+    let lastDistance: number | null = null
+    const onTouchStart = (event: TouchEvent) => {
+      lastDistance = event.touches.length === 2 ? touchDistance(event.touches) : null
+    }
+    const onTouchMove = (event: TouchEvent) => {
+      if (event.touches.length !== 2 || lastDistance === null) {
+        return
+      }
+      event.preventDefault()
+      const distance = touchDistance(event.touches)
+      const center = touchCenter(event.touches)
+      onZoomRef.current(distance / lastDistance, center.x, center.y)
+      lastDistance = distance
+    }
+    const onTouchEnd = (event: TouchEvent) => {
+      if (event.touches.length < 2) {
+        lastDistance = null
+      }
+    }
+
+    let lastScale = 1
+    const onGestureStart = (event: Event) => {
+      event.preventDefault()
+      lastScale = 1
+    }
+    const onGestureChange = (event: Event) => {
+      const gesture = event as GestureEvent
+      event.preventDefault()
+      onZoomRef.current(gesture.scale / lastScale, gesture.clientX, gesture.clientY)
+      lastScale = gesture.scale
+    }
+
+    element.addEventListener("wheel", onWheel, { passive: false })
+    element.addEventListener("touchstart", onTouchStart, { passive: true })
+    element.addEventListener("touchmove", onTouchMove, { passive: false })
+    element.addEventListener("touchend", onTouchEnd)
+    element.addEventListener("touchcancel", onTouchEnd)
+    element.addEventListener("gesturestart", onGestureStart)
+    element.addEventListener("gesturechange", onGestureChange)
+    return () => {
+      element.removeEventListener("wheel", onWheel)
+      element.removeEventListener("touchstart", onTouchStart)
+      element.removeEventListener("touchmove", onTouchMove)
+      element.removeEventListener("touchend", onTouchEnd)
+      element.removeEventListener("touchcancel", onTouchEnd)
+      element.removeEventListener("gesturestart", onGestureStart)
+      element.removeEventListener("gesturechange", onGestureChange)
+    }
+  }, [element])
+}
@@ -0,0 +1,11 @@
+import * as React from "react"
+
+/**
+ * A ref that always holds the value from the latest render, for callbacks an
+ * effect should call without re-running whenever their identity changes.
+ */
+export function useLatest<T>(value: T) {
+  const ref = React.useRef(value)
+  ref.current = value
+  return ref
+}
@@ -0,0 +1,97 @@
+import * as React from "react"
+
+const STORAGE_PREFIX = "pdf-viewer:rotation:"
+
+export interface RotationState {
+  // Applied to every page on top of its own /Rotate value.
+  document: number
+  // Extra rotation for individual pages, on top of `document`.
+  pages: Record<number, number>
+}
+
+const EMPTY_ROTATION: RotationState = { document: 0, pages: {} }
+
+export const normalizeRotation = (degrees: number) => ((degrees % 360) + 360) % 360
+
+const readRotation = (documentKey: string | null): RotationState => {
+  if (!documentKey) {
+    return EMPTY_ROTATION
+  }
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + documentKey)
+    return stored ? { ...EMPTY_ROTATION, ...JSON.parse(stored) } : EMPTY_ROTATION
+  } catch {
+    return EMPTY_ROTATION
+  }
+}
+
+interface KeyedRotation {
+  documentKey: string | null
+  rotation: RotationState
+}
+
+const writeRotation = ({ documentKey, rotation }: KeyedRotation) => {
+  if (!documentKey) {
+    return
+  }
+  if (rotation.document === 0 && Object.keys(rotation.pages).length === 0) {
+    localStorage.removeItem(STORAGE_PREFIX + documentKey)
+  } else {
+    localStorage.setItem(STORAGE_PREFIX + documentKey, JSON.stringify(rotation))
+  }
+}
+
+/**
+ * Rotation the user added to a page, relative to the page's own /Rotate.
+ */
+export const getExtraRotation = (rotation: RotationState, pageNumber: number) =>
+  normalizeRotation(rotation.document + (rotation.pages[pageNumber] ?? 0))
+
+/**
+ * User-applied page rotation, remembered per document in localStorage.
+ */
+export function usePageRotation(documentKey: string | null) {
+  // Tagged with its document so a save never lands under another one's key.
+  const [state, setState] = React.useState<KeyedRotation>(() => ({
+    documentKey,
+    rotation: readRotation(documentKey),
+  }))
+
+  React.useEffect(() => {
+    setState({ documentKey, rotation: readRotation(documentKey) })
+  }, [documentKey])
+
+  React.useEffect(() => {
+    writeRotation(state)
+  }, [state])
+
+  const update = React.useCallback(
+    (updater: (prev: RotationState) => RotationState) =>
+      setState((prev) => ({ ...prev, rotation: updater(prev.rotation) })),
+    []
+  )
+
+  const rotatePage = React.useCallback(
+    (pageNumber: number, delta: number) =>
+      update((prev) => {
+        const pageRotation = normalizeRotation((prev.pages[pageNumber] ?? 0) + delta)
+        const pages = { ...prev.pages }
+        if (pageRotation === 0) {
+          delete pages[pageNumber]
+        } else {
+          pages[pageNumber] = pageRotation
+        }
+        return { ...prev, pages }
+      }),
+    [update]
+  )
+
+  const rotateDocument = React.useCallback(
+    (delta: number) => update((prev) => ({ ...prev, document: normalizeRotation(prev.document + delta) })),
+    [update]
+  )
+
+  const resetRotation = React.useCallback(() => update(() => EMPTY_ROTATION), [update])
+
+  return { rotation: state.rotation, rotatePage, rotateDocument, resetRotation }
+}
@@ -0,0 +1,63 @@
+import * as React from "react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+
+export interface PageSize {
+  width: number
+  height: number
+  // The page's own /Rotate value, in degrees.
+  rotate: number
+}
+
+const DEFAULT_PAGE_SIZE: PageSize = { width: 595, height: 842, rotate: 0 }
+
+/**
+ * Returns the unscaled, unrotated size of every page together with its
+ * intrinsic rotation. Pages are measured in order and published in batches;
+ * `getPageSize` falls back to the first page as an estimate for pages that
+ * have not been read yet, so layouts can be computed right away.
+ */
+export function usePageSizes(pdf: PDFDocumentProxy | null): PageSize[] {
+  const [sizes, setSizes] = React.useState<PageSize[]>([])
+
+  React.useEffect(() => {
+    setSizes([])
+    if (!pdf) {
+      return
+    }
+    let cancelled = false
+
+    const measure = async () => {
+      const measured: PageSize[] = []
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        if (cancelled) {
+          return
+        }
+        const { width, height } = page.getViewport({ scale: 1, rotation: 0 })
+        measured.push({ width, height, rotate: page.rotate })
+        // Publish the first page immediately, then in batches to keep renders down.
+        if (pageNumber === 1 || pageNumber % 50 === 0 || pageNumber === pdf.numPages) {
+          setSizes([...measured])
+        }
+      }
+    }
+
+    measure().catch((err) => console.error("Error measuring PDF pages:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [pdf])
+
+  return sizes
+}
+
+export const getPageSize = (sizes: PageSize[], pageNumber: number): PageSize =>
+  sizes[pageNumber - 1] ?? sizes[0] ?? DEFAULT_PAGE_SIZE
+
+/**
+ * Size of a page as displayed at the given absolute rotation.
+ */
+export const getDisplaySize = (size: PageSize, rotation: number): PageSize =>
+  rotation % 180 === 0
+    ? { ...size, rotate: rotation }
+    : { width: size.height, height: size.width, rotate: rotation }
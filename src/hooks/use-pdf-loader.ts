@@ -0,0 +1,176 @@
+import * as React from "react"
+import type { DocumentProps } from "react-pdf"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { cacheStreamedPDF, fetchPDF, getProxyUrl, type DownloadProgress } from "@/api/pdfProxy"
+import { isDocumentCached } from "@/lib/pdfCache"
+import { getLoadedData } from "@/lib/pdfjs"
+import { toPDFLoadError, type PDFLoadError } from "@/lib/pdfErrors"
+import type { PDFSource } from "@/lib/pdfSource"
+
+// Tried in order until one loads. The first two let pdf.js stream the file
+// and fetch byte ranges, so the first page shows before the rest arrives;
+// "download" fetches the whole file up front for servers that get ranges wrong.
+// Documents in the offline cache start at "download", which revalidates them.
+const URL_STRATEGIES = ["direct", "proxy", "download"] as const
+const CACHED_START_INDEX = URL_STRATEGIES.indexOf("download")
+
+type LoadStrategy = (typeof URL_STRATEGIES)[number]
+
+interface LoadAttempt {
+  source: PDFSource
+  index: number
+  isCancelled: boolean
+  // Bumped by reload(); <Document> is keyed on it, so it loads afresh.
+  generation: number
+}
+
+interface DownloadState {
+  source: PDFSource
+  data: Uint8Array | null
+  error: PDFLoadError | null
+}
+
+interface CacheLookup {
+  source: PDFSource
+  isCached: boolean
+}
+
+/**
+ * Picks what to hand to <Document file>, falling back to the next strategy
+ * when pdf.js reports a load error, and tracks download progress.
+ */
+export function usePDFLoader(source: PDFSource) {
+  // Attempts and downloads are tagged with their source so a new document
+  // starts over on the very first render, not one render late.
+  const [attempt, setAttempt] = React.useState<LoadAttempt>({ source, index: 0, isCancelled: false, generation: 0 })
+  const [download, setDownload] = React.useState<DownloadState | null>(null)
+  const [progress, setProgress] = React.useState<DownloadProgress | null>(null)
+  const [cacheLookup, setCacheLookup] = React.useState<CacheLookup | null>(null)
+  const current: LoadAttempt =
+    attempt.source === source ? attempt : { source, index: 0, isCancelled: false, generation: 0 }
+  // Null until the cache has been checked; nothing loads before then.
+  const isCached = cacheLookup?.source === source ? cacheLookup.isCached : null
+  const strategyIndex = Math.max(current.index, isCached ? CACHED_START_INDEX : 0)
+  const strategy: LoadStrategy = URL_STRATEGIES[strategyIndex]
+  const downloaded = download?.source === source ? download : null
+  const isWaitingForCache = source.kind === "url" && isCached === null
+
+  React.useEffect(() => {
+    setProgress(null)
+    if (source.kind !== "url") {
+      return
+    }
+    let cancelled = false
+    isDocumentCached(source.url)
+      .catch(() => false)
+      .then((isCached) => {
+        if (!cancelled) {
+          setCacheLookup({ source, isCached })
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [source])
+
+  React.useEffect(() => {
+    if (source.kind !== "url" || strategy !== "download" || current.isCancelled || isWaitingForCache) {
+      return
+    }
+    const request = fetchPDF(source.url)
+    const unsubscribe = request.onProgress(setProgress)
+    request.promise.then(
+      (data) => {
+        if (!request.signal.aborted) {
+          setDownload({ source, data, error: null })
+        }
+      },
+      (err) => {
+        if (!request.signal.aborted) {
+          setDownload({ source, data: null, error: toPDFLoadError(err) })
+        }
+      }
+    )
+    return () => {
+      unsubscribe()
+      request.cancel()
+    }
+  }, [source, strategy, current.isCancelled, current.generation, isWaitingForCache])
+
+  // pdf.js transfers the buffer it is given to its worker, so hand it a copy.
+  const file = React.useMemo<DocumentProps["file"]>(() => {
+    if (current.isCancelled || isWaitingForCache) {
+      return null
+    }
+    if (source.kind === "file") {
+      return { data: source.data.slice() }
+    }
+    switch (strategy) {
+      case "direct":
+        return { url: source.url }
+      case "proxy":
+        return { url: getProxyUrl(source.url) }
+      case "download":
+        return downloaded?.data ? { data: downloaded.data.slice() } : null
+    }
+  }, [source, strategy, current.isCancelled, isWaitingForCache, downloaded?.data])
+
+  /**
+   * Moves on to the next strategy. Returns false once there is none left and
+   * the error should be shown.
+   */
+  const retryAfterError = (error: Error) => {
+    if (source.kind === "file" || error.name === "PasswordException") {
+      return false
+    }
+    if (strategyIndex >= URL_STRATEGIES.length - 1) {
+      return false
+    }
+    setProgress(null)
+    setAttempt({ ...current, index: strategyIndex + 1 })
+    return true
+  }
+
+  // Documents pdf.js streamed itself never pass through fetchPDF, so cache
+  // them here once the whole file has come in.
+  const onLoadSuccess = (pdf: PDFDocumentProxy) => {
+    if (source.kind !== "url" || strategy === "download") {
+      return
+    }
+    getLoadedData(pdf)
+      .then((data) => cacheStreamedPDF(source.url, data))
+      .catch((err) => console.warn("Could not cache PDF:", source.url, err))
+  }
+
+  // Stops whatever is in flight: unmounting <Document> destroys the pdf.js
+  // loading task, and the download effect aborts its request.
+  const cancel = () => setAttempt({ ...current, isCancelled: true })
+
+  // Starting at "proxy" skips a direct request the host is known to refuse.
+  const reload = (startAt: LoadStrategy = "direct") => {
+    setProgress(null)
+    setDownload(null)
+    setAttempt({
+      source,
+      index: URL_STRATEGIES.indexOf(startAt),
+      isCancelled: false,
+      generation: current.generation + 1,
+    })
+  }
+
+  const onLoadProgress: DocumentProps["onLoadProgress"] = ({ loaded, total }) =>
+    setProgress({ loaded, total: total > 0 ? total : null })
+
+  return {
+    file,
+    generation: current.generation,
+    error: downloaded?.error ?? null,
+    progress,
+    isCancelled: current.isCancelled,
+    retryAfterError,
+    onLoadSuccess,
+    onLoadProgress,
+    cancel,
+    reload,
+  }
+}
@@ -0,0 +1,86 @@
+import * as React from "react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { resolveDestination, type DestinationTarget, type ExplicitDest } from "@/lib/pdfDestinations"
+
+type RawOutlineItem = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number]
+
+export interface OutlineNode {
+  id: string
+  title: string
+  target: DestinationTarget | null
+  url: string | null
+  bold: boolean
+  italic: boolean
+  children: OutlineNode[]
+}
+
+const buildOutline = async (
+  pdf: PDFDocumentProxy,
+  items: RawOutlineItem[],
+  parentId = ""
+): Promise<OutlineNode[]> =>
+  Promise.all(
+    items.map(async (item, index) => {
+      const id = parentId ? `${parentId}.${index}` : `${index}`
+      const target = await resolveDestination(pdf, item.dest as string | ExplicitDest | null).catch(() => null)
+      return {
+        id,
+        title: item.title,
+        target,
+        url: item.url ?? null,
+        bold: item.bold,
+        italic: item.italic,
+        children: await buildOutline(pdf, item.items, id),
+      }
+    })
+  )
+
+/**
+ * Returns the outline entry that the given page belongs to: the last entry,
+ * in document order, that starts on or before the page.
+ */
+export const findActiveOutlineNode = (nodes: OutlineNode[], pageNumber: number): OutlineNode | null => {
+  let active: OutlineNode | null = null
+  const visit = (node: OutlineNode) => {
+    const start = node.target?.pageNumber
+    if (start !== undefined && start <= pageNumber && (!active || start >= active.target!.pageNumber)) {
+      active = node
+    }
+    node.children.forEach(visit)
+  }
+  nodes.forEach(visit)
+  return active
+}
+
+export function usePDFOutline(pdf: PDFDocumentProxy | null) {
+  const [outline, setOutline] = React.useState<OutlineNode[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    setOutline([])
+    if (!pdf) {
+      return
+    }
+    let cancelled = false
+    setIsLoading(true)
+    pdf
+      .getOutline()
+      .then((items) => buildOutline(pdf, items ?? []))
+      .then((nodes) => {
+        if (!cancelled) {
+          setOutline(nodes)
+        }
+      })
+      .catch((err) => console.error("Error reading PDF outline:", err))
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [pdf])
+
+  return { outline, isLoading }
+}
@@ -0,0 +1,105 @@
+import * as React from "react"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import { extractDocumentText, findMatches, type PageText, type SearchMatch } from "@/lib/pdfSearch"
+
+export interface PDFSearchState {
+  query: string
+  setQuery: (query: string) => void
+  matches: SearchMatch[]
+  activeIndex: number
+  activeMatch: SearchMatch | null
+  isIndexing: boolean
+  pageTexts: Map<number, PageText>
+  goToMatch: (index: number) => void
+  next: () => void
+  previous: () => void
+}
+
+interface TextIndex {
+  // The document the texts were extracted from, so a newly opened one never
+  // shows or counts the previous document's pages.
+  pdf: PDFDocumentProxy | null
+  texts: Map<number, PageText>
+}
+
+const EMPTY_INDEX: TextIndex = { pdf: null, texts: new Map() }
+
+export function usePDFSearch(pdf: PDFDocumentProxy | null): PDFSearchState {
+  const [query, setQuery] = React.useState("")
+  const [index, setIndex] = React.useState<TextIndex>(EMPTY_INDEX)
+  const [isIndexing, setIsIndexing] = React.useState(false)
+  const [activeIndex, setActiveIndex] = React.useState(0)
+  const wantsIndex = query.trim().length > 0
+  const pageTexts = index.pdf === pdf ? index.texts : EMPTY_INDEX.texts
+  const isIndexed = pdf !== null && pageTexts.size === pdf.numPages
+
+  // Text is only pulled from the worker once somebody actually searches, and
+  // then kept for the lifetime of the document.
+  React.useEffect(() => {
+    if (!pdf || !wantsIndex || isIndexed) {
+      return
+    }
+    const controller = new AbortController()
+    setIsIndexing(true)
+    extractDocumentText(
+      pdf,
+      (pageText) => {
+        if (controller.signal.aborted) {
+          return
+        }
+        setIndex((prev) => ({
+          pdf,
+          texts: new Map(prev.pdf === pdf ? prev.texts : undefined).set(pageText.pageNumber, pageText),
+        }))
+      },
+      controller.signal
+    )
+      .catch((err) => console.error("Error extracting PDF text:", err))
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsIndexing(false)
+        }
+      })
+    return () => {
+      controller.abort()
+      setIsIndexing(false)
+    }
+  }, [pdf, wantsIndex, isIndexed])
+
+  const matches = React.useMemo(
+    () => findMatches(Array.from(pageTexts.values()), query),
+    [pageTexts, query]
+  )
+
+  React.useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  const activeMatch = matches.length > 0 ? matches[Math.min(activeIndex, matches.length - 1)] : null
+
+  const goToMatch = React.useCallback(
+    (index: number) => {
+      if (matches.length === 0) {
+        return
+      }
+      setActiveIndex(((index % matches.length) + matches.length) % matches.length)
+    },
+    [matches.length]
+  )
+
+  const next = React.useCallback(() => goToMatch(activeIndex + 1), [activeIndex, goToMatch])
+  const previous = React.useCallback(() => goToMatch(activeIndex - 1), [activeIndex, goToMatch])
+
+  return {
+    query,
+    setQuery,
+    matches,
+    activeIndex,
+    activeMatch,
+    isIndexing,
+    pageTexts,
+    goToMatch,
+    next,
+    previous,
+  }
+}
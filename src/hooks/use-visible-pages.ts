@@ -0,0 +1,63 @@
+import * as React from "react"
+
+const THRESHOLDS = Array.from({ length: 11 }, (_, index) => index / 10)
+
+/**
+ * Tracks which page slots inside a scroll container intersect its viewport.
+ * Slots are found by `[data-page-slot]` and must carry the page number as the
+ * attribute value. `layout` must change whenever the slots are re-created so
+ * the observer picks up the new elements. Returns a map of page number to its
+ * visible height in pixels.
+ */
+export function useVisiblePages(
+  root: HTMLElement | null,
+  layout: unknown,
+  rootMargin = "0px"
+): Map<number, number> {
+  const [visible, setVisible] = React.useState<Map<number, number>>(new Map())
+
+  React.useEffect(() => {
+    setVisible(new Map())
+    if (!root || !layout) {
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        setVisible((prev) => {
+          const next = new Map(prev)
+          entries.forEach((entry) => {
+            const pageNumber = Number((entry.target as HTMLElement).dataset.pageSlot)
+            if (entry.isIntersecting) {
+              next.set(pageNumber, entry.intersectionRect.height)
+            } else {
+              next.delete(pageNumber)
+            }
+          })
+          return next
+        })
+      },
+      { root, rootMargin, threshold: THRESHOLDS }
+    )
+
+    root.querySelectorAll("[data-page-slot]").forEach((slot) => observer.observe(slot))
+    return () => observer.disconnect()
+  }, [root, layout, rootMargin])
+
+  return visible
+}
+
+/**
+ * Picks the page that takes up most of the viewport, preferring the earlier
+ * page on a tie.
+ */
+export const mostVisiblePage = (visible: Map<number, number>): number | null => {
+  let best: number | null = null
+  visible.forEach((height, pageNumber) => {
+    const bestHeight = best === null ? -1 : visible.get(best)!
+    if (height > bestHeight || (height === bestHeight && pageNumber < best!)) {
+      best = pageNumber
+    }
+  })
+  return best
+}
@@ -0,0 +1,47 @@
+import type { Annotation } from "@/lib/annotations"
+
+/**
+ * Where annotations are kept. The viewer only talks to this interface, so a
+ * server-backed implementation can replace localStorage without touching it.
+ */
+export interface AnnotationBackend {
+  load: (documentHash: string) => Promise<Annotation[]>
+  save: (documentHash: string, annotations: Annotation[]) => Promise<void>
+  // Reports changes made elsewhere, e.g. in another window or by another
+  // reviewer. Returns a function that stops watching.
+  watch?: (documentHash: string, onChange: () => void) => () => void
+}
+
+const STORAGE_PREFIX = "pdf-viewer:annotations:"
+
+/**
+ * Keeps annotations in this browser only. Other windows pick up changes
+ * through the storage event.
+ */
+export const localStorageBackend: AnnotationBackend = {
+  load: async (documentHash) => {
+    try {
+      const stored = localStorage.getItem(STORAGE_PREFIX + documentHash)
+      const parsed: unknown = stored ? JSON.parse(stored) : null
+      return Array.isArray(parsed) ? (parsed as Annotation[]) : []
+    } catch {
+      return []
+    }
+  },
+  save: async (documentHash, annotations) => {
+    if (annotations.length === 0) {
+      localStorage.removeItem(STORAGE_PREFIX + documentHash)
+    } else {
+      localStorage.setItem(STORAGE_PREFIX + documentHash, JSON.stringify(annotations))
+    }
+  },
+  watch: (documentHash, onChange) => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_PREFIX + documentHash) {
+        onChange()
+      }
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  },
+}
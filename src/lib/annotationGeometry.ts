@@ -0,0 +1,229 @@
+import type { PageViewport } from "pdfjs-dist"
+import type { Annotation, Drawing, MarkupType, PDFRect, ShapeAnnotation } from "@/lib/annotations"
+
+export interface ViewportRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Two rects on the same line are merged when they overlap vertically by this
+// fraction of the shorter one and are at most this far apart horizontally,
+// relative to the line height.
+const SAME_LINE_OVERLAP = 0.5
+const MERGE_GAP = 0.6
+// Thickness of underlines and strikeouts relative to the line height.
+const LINE_THICKNESS = 0.08
+// Size of a note's icon in exported files, in PDF units.
+const NOTE_ICON_SIZE = 20
+// Arrowheads are this many stroke widths long, but never shorter than the
+// minimum, and open at this angle either side of the shaft.
+const ARROW_HEAD_WIDTHS = 4
+const ARROW_HEAD_MIN = 8
+const ARROW_HEAD_ANGLE = Math.PI / 7
+// Segments used to trace an ellipse when hit testing.
+const ELLIPSE_SEGMENTS = 48
+
+type Point = [number, number]
+
+export const normalizeRect = ([x1, y1, x2, y2]: number[]): PDFRect => [
+  Math.min(x1, x2),
+  Math.min(y1, y2),
+  Math.max(x1, x2),
+  Math.max(y1, y2),
+]
+
+export const boundingRect = (rects: PDFRect[]): PDFRect => [
+  Math.min(...rects.map((rect) => rect[0])),
+  Math.min(...rects.map((rect) => rect[1])),
+  Math.max(...rects.map((rect) => rect[2])),
+  Math.max(...rects.map((rect) => rect[3])),
+]
+
+// Quad points list a line's corners as top left, top right, bottom left,
+// bottom right, the order PDF readers expect.
+export const rectToQuad = ([x1, y1, x2, y2]: PDFRect) => [x1, y2, x2, y2, x1, y1, x2, y1]
+
+export const quadToRect = (quad: number[]): PDFRect => {
+  const xs = quad.filter((_, index) => index % 2 === 0)
+  const ys = quad.filter((_, index) => index % 2 === 1)
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+// The note's icon, with its top-left corner at the note's point.
+export const noteIconRect = ([x, y]: [number, number]): PDFRect => [x, y - NOTE_ICON_SIZE, x + NOTE_ICON_SIZE, y]
+
+/**
+ * The /Rect an annotation gets in a PDF or XFDF file: the box around all of
+ * its lines or strokes, or the note's icon.
+ */
+export const getAnnotationRect = (annotation: Annotation): PDFRect => {
+  switch (annotation.type) {
+    case "note":
+      return noteIconRect(annotation.point)
+    case "highlight":
+    case "underline":
+    case "strikeout":
+      return boundingRect(annotation.rects)
+    default: {
+      const half = annotation.width / 2
+      const [x1, y1, x2, y2] = boundingRect(getOutline(annotation).flat().map(([x, y]) => [x, y, x, y]))
+      return [x1 - half, y1 - half, x2 + half, y2 + half]
+    }
+  }
+}
+
+export const toViewportRect = (rect: PDFRect, viewport: PageViewport): ViewportRect => {
+  const [left, top, right, bottom] = normalizeRect(viewport.convertToViewportRectangle(rect))
+  return { left, top, width: right - left, height: bottom - top }
+}
+
+const fromViewportRect = ({ left, top, width, height }: ViewportRect, viewport: PageViewport): PDFRect =>
+  normalizeRect([
+    ...viewport.convertToPdfPoint(left, top),
+    ...viewport.convertToPdfPoint(left + width, top + height),
+  ])
+
+/**
+ * Converts a client rect into PDF user space, given the bounds of the page
+ * element it lies on and the viewport that page was rendered with.
+ */
+export const clientRectToPDF = (rect: DOMRect, pageBounds: DOMRect, viewport: PageViewport): PDFRect =>
+  fromViewportRect(
+    { left: rect.left - pageBounds.left, top: rect.top - pageBounds.top, width: rect.width, height: rect.height },
+    viewport
+  )
+
+export const clientPointToPDF = (x: number, y: number, pageBounds: DOMRect, viewport: PageViewport) => {
+  const [pdfX, pdfY] = viewport.convertToPdfPoint(x - pageBounds.left, y - pageBounds.top)
+  return [pdfX, pdfY] as [number, number]
+}
+
+/**
+ * Joins the per-span rects of a selection into one rect per line. Works in
+ * `readingViewport`, the page at its own /Rotate, where text runs left to right.
+ */
+export const mergeLineRects = (rects: PDFRect[], readingViewport: PageViewport): PDFRect[] => {
+  const boxes = rects
+    .map((rect) => toViewportRect(rect, readingViewport))
+    .filter((box) => box.width > 0 && box.height > 0)
+    .sort((a, b) => a.top - b.top || a.left - b.left)
+
+  const merged: ViewportRect[] = []
+  for (const box of boxes) {
+    const line = merged.find((candidate) => {
+      const overlap =
+        Math.min(candidate.top + candidate.height, box.top + box.height) - Math.max(candidate.top, box.top)
+      const lineHeight = Math.min(candidate.height, box.height)
+      const gap = Math.max(box.left - (candidate.left + candidate.width), candidate.left - (box.left + box.width))
+      return overlap >= lineHeight * SAME_LINE_OVERLAP && gap <= lineHeight * MERGE_GAP
+    })
+    if (!line) {
+      merged.push({ ...box })
+      continue
+    }
+    const right = Math.max(line.left + line.width, box.left + box.width)
+    const bottom = Math.max(line.top + line.height, box.top + box.height)
+    line.left = Math.min(line.left, box.left)
+    line.top = Math.min(line.top, box.top)
+    line.width = right - line.left
+    line.height = bottom - line.top
+  }
+  return merged.map((box) => fromViewportRect(box, readingViewport))
+}
+
+/**
+ * The part of a line rect a mark covers: all of it for highlights, a thin band
+ * along the bottom or through the middle for underlines and strikeouts. The
+ * band follows the text as the page's own /Rotate orients it, not the screen.
+ */
+export const markupBand = (rect: PDFRect, type: MarkupType, pageRotate: number): PDFRect => {
+  if (type === "highlight") {
+    return rect
+  }
+  const [x1, y1, x2, y2] = rect
+  // On pages turned by a quarter, lines of text run along the y axis.
+  const isSideways = pageRotate % 180 !== 0
+  const [low, high] = isSideways ? [x1, x2] : [y1, y2]
+  const thickness = Math.max(1, (high - low) * LINE_THICKNESS)
+  // Where the bottom of the text is: low y when upright, high x at 90° and so on.
+  const bottomIsHigh = pageRotate === 90 || pageRotate === 180
+  const start =
+    type === "strikeout" ? (low + high - thickness) / 2 : bottomIsHigh ? high - thickness : low
+  return isSideways ? [start, y1, start + thickness, y2] : [x1, start, x2, start + thickness]
+}
+
+export const getArrowHeadLength = (width: number) => Math.max(ARROW_HEAD_MIN, width * ARROW_HEAD_WIDTHS)
+
+/**
+ * The two ends of an open arrowhead at `tip`, for a shaft coming from `tail`.
+ * Works in any coordinate system, so it can be used in PDF space and on screen.
+ */
+export const getArrowHead = (tail: Point, tip: Point, length: number): [Point, Point] => {
+  const angle = Math.atan2(tip[1] - tail[1], tip[0] - tail[0])
+  const wing = (side: number): Point => [
+    tip[0] - length * Math.cos(angle + side * ARROW_HEAD_ANGLE),
+    tip[1] - length * Math.sin(angle + side * ARROW_HEAD_ANGLE),
+  ]
+  return [wing(1), wing(-1)]
+}
+
+const shapeOutline = ({ type, start, end, width }: ShapeAnnotation): Point[][] => {
+  const [x1, y1, x2, y2] = normalizeRect([...start, ...end])
+  switch (type) {
+    case "rectangle":
+      return [
+        [
+          [x1, y1],
+          [x2, y1],
+          [x2, y2],
+          [x1, y2],
+          [x1, y1],
+        ],
+      ]
+    case "ellipse": {
+      const [cx, cy, rx, ry] = [(x1 + x2) / 2, (y1 + y2) / 2, (x2 - x1) / 2, (y2 - y1) / 2]
+      return [
+        Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, index): Point => {
+          const angle = (index / ELLIPSE_SEGMENTS) * 2 * Math.PI
+          return [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)]
+        }),
+      ]
+    }
+    case "line":
+      return [[start, end]]
+    case "arrow": {
+      const [left, right] = getArrowHead(start, end, getArrowHeadLength(width))
+      return [
+        [start, end],
+        [left, end, right],
+      ]
+    }
+  }
+}
+
+/**
+ * A drawing as the polylines its stroke follows, in PDF user space.
+ */
+export const getOutline = (drawing: Drawing): Point[][] =>
+  drawing.type === "ink" ? drawing.paths : shapeOutline(drawing)
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const [dx, dy] = [bx - ax, by - ay]
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, ((px - ax) * dx + (py - ay) * dy) / lengthSquared))
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy))
+}
+
+/**
+ * Whether a circle of `radius` around `point` touches the drawing's stroke;
+ * used by the eraser. All in PDF user space.
+ */
+export const touchesDrawing = (drawing: Drawing, point: Point, radius: number) =>
+  getOutline(drawing).some((path) =>
+    path.some(
+      (vertex, index) =>
+        distanceToSegment(point, path[Math.max(0, index - 1)], vertex) <= radius + drawing.width / 2
+    )
+  )
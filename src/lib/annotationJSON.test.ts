@@ -0,0 +1,145 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { AnnotationFileError, ANNOTATION_FORMAT, parseAnnotationJSON, toAnnotationJSON } from "@/lib/annotationJSON"
+import type { Annotation, NoteAnnotation } from "@/lib/annotations"
+
+const CREATED_AT = Date.UTC(2024, 0, 2, 3, 4, 5)
+
+const NOTE: NoteAnnotation = {
+  id: "note-1",
+  type: "note",
+  pageNumber: 1,
+  point: [300, 400],
+  color: "#facc15",
+  author: "Ada",
+  text: "Is this right?",
+  createdAt: CREATED_AT,
+  status: "resolved",
+  replies: [{ id: "reply-1", author: "Grace", text: "Yes", createdAt: CREATED_AT + 1000 }],
+}
+
+const ANNOTATIONS: Annotation[] = [
+  {
+    id: "highlight-1",
+    type: "highlight",
+    pageNumber: 1,
+    rects: [
+      [10, 700, 200, 712],
+      [10, 686, 120, 698],
+    ],
+    color: "#fde047",
+    text: "marked text",
+    author: "Ada",
+    createdAt: CREATED_AT,
+  },
+  {
+    id: "ink-1",
+    type: "ink",
+    pageNumber: 2,
+    paths: [
+      [
+        [10, 10],
+        [20, 30],
+      ],
+    ],
+    pressures: [[0.5, 1]],
+    color: "#2563eb",
+    width: 2,
+    opacity: 0.4,
+    author: "Grace",
+    createdAt: CREATED_AT,
+  },
+  {
+    id: "arrow-1",
+    type: "arrow",
+    pageNumber: 2,
+    start: [50, 50],
+    end: [150, 100],
+    color: "#e11d48",
+    width: 4,
+    author: "Grace",
+    createdAt: CREATED_AT,
+  },
+  NOTE,
+]
+
+// Parses an exported file after letting `edit` change it.
+const parseEdited = (edit: (file: { annotations: Record<string, unknown>[] }) => void, pageCount = 2) => {
+  const file = JSON.parse(toAnnotationJSON(ANNOTATIONS, { name: "doc.pdf" }))
+  edit(file)
+  return parseAnnotationJSON(JSON.stringify(file), pageCount)
+}
+
+const rejects = (parse: () => unknown, message: string, issue: RegExp) =>
+  assert.throws(parse, (err) => {
+    assert.ok(err instanceof AnnotationFileError)
+    assert.equal(err.message, message)
+    assert.ok(
+      err.issues.some((text) => issue.test(text)),
+      `Expected an issue matching ${issue}, got ${JSON.stringify(err.issues)}`
+    )
+    return true
+  })
+
+describe("parseAnnotationJSON", () => {
+  it("reads back every kind of annotation it exports", () => {
+    assert.deepEqual(parseAnnotationJSON(toAnnotationJSON(ANNOTATIONS, { name: "doc.pdf" }), 2), ANNOTATIONS)
+  })
+
+  it("leaves out notes without a comment", () => {
+    const draft: NoteAnnotation = { ...NOTE, id: "draft", text: "" }
+    const file = JSON.parse(toAnnotationJSON([draft], undefined))
+    assert.equal(file.format, ANNOTATION_FORMAT)
+    assert.deepEqual(file.annotations, [])
+  })
+
+  it("rejects text that isn't JSON", () => {
+    rejects(() => parseAnnotationJSON("{", 2), "The file isn't valid JSON", /JSON/)
+  })
+
+  it("rejects files in another format", () => {
+    rejects(
+      () => parseAnnotationJSON(JSON.stringify({ format: "other", version: 1, annotations: [] }), 2),
+      "The file doesn't match the annotation format",
+      /^format:/
+    )
+  })
+
+  it("names the entry and field that don't validate", () => {
+    rejects(
+      () =>
+        parseEdited((file) => {
+          file.annotations[0].color = "yellow"
+        }),
+      "The file doesn't match the annotation format",
+      /^annotations\[0\]\.color: Expected a color/
+    )
+    rejects(
+      () =>
+        parseEdited((file) => {
+          file.annotations[2].rect = [10, 10, 5, 5]
+        }),
+      "The file doesn't match the annotation format",
+      /^annotations\[2\]\.rect:/
+    )
+  })
+
+  it("rejects entries past the last page", () => {
+    rejects(
+      () => parseEdited(() => {}, 1),
+      "The file doesn't fit this document",
+      /^annotations\[1\]\.page: Page 1 is past the end of the document \(1 page\)/
+    )
+  })
+
+  it("rejects ink pressures that don't line up with the points", () => {
+    rejects(
+      () =>
+        parseEdited((file) => {
+          file.annotations[1].pressures = [[1]]
+        }),
+      "The file doesn't fit this document",
+      /^annotations\[1\]\.pressures:/
+    )
+  })
+})
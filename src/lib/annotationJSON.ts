@@ -0,0 +1,371 @@
+import { z } from "zod"
+import { getAnnotationRect, quadToRect, rectToQuad } from "@/lib/annotationGeometry"
+import type { Annotation, CommentStatus, MarkupType, PDFRect, ShapeType } from "@/lib/annotations"
+
+/**
+ * The viewer's JSON annotation format, version 1. Coordinates are in PDF user
+ * space (points, origin at the bottom left of the page's media box) and pages
+ * are zero-based, as in XFDF:
+ *
+ *   {
+ *     "format": "pdf-viewer-annotations",
+ *     "version": 1,
+ *     "document": { "name": "report.pdf", "hash": "<sha-256 of the file>" },
+ *     "annotations": [
+ *       { "id": "…", "type": "highlight", "page": 0, "rect": [x1, y1, x2, y2],
+ *         "quadPoints": [[x1, y2, x2, y2, x1, y1, x2, y1]], "color": "#fde047",
+ *         "author": "Ann", "content": "the marked text",
+ *         "createdAt": "2024-01-31T12:00:00.000Z" },
+ *       { "id": "…", "type": "ink", "page": 1, "rect": […], "paths": [[[x, y], …]],
+ *         "pressures": [[0.4, …]], "width": 2, "opacity": 0.4, "color": "#000000",
+ *         "createdAt": "…" },
+ *       { "id": "…", "type": "arrow", "page": 1, "rect": […], "start": [x, y],
+ *         "end": [x, y], "width": 2, "color": "#dc2626", "createdAt": "…" },
+ *       { "id": "…", "type": "note", "page": 1, "rect": […], "color": "#facc15",
+ *         "author": "Ann", "content": "…", "status": "open", "createdAt": "…",
+ *         "replies": [{ "id": "…", "author": "Bob", "content": "…", "createdAt": "…" }] }
+ *     ]
+ *   }
+ *
+ * `type` is one of highlight, underline, strikeout, ink, rectangle, ellipse,
+ * line, arrow or note. `rect` is the box around the whole annotation; for
+ * notes its top-left corner is where the note is pinned. Ink `pressures`, from
+ * 0 to 1, match `paths` point for point and are only there for stylus input;
+ * `opacity` is below 1 for marker strokes. Shapes run from `start` to `end`:
+ * opposite corners for rectangles and ellipses, tail to tip for arrows.
+ * `author` is optional except on notes and replies.
+ */
+export const ANNOTATION_FORMAT = "pdf-viewer-annotations" as const
+
+const color = z.string().regex(/^#[0-9a-f]{6}$/i, "Expected a color like #fde047")
+const point = z.tuple([z.number(), z.number()])
+const rect = z
+  .tuple([z.number(), z.number(), z.number(), z.number()])
+  .refine(([x1, y1, x2, y2]) => x1 <= x2 && y1 <= y2, "Expected [x1, y1, x2, y2] with x1 <= x2 and y1 <= y2")
+const timestamp = z.string().datetime({ offset: true, message: "Expected an ISO 8601 date" })
+
+const common = {
+  id: z.string().min(1),
+  page: z.number().int().nonnegative(),
+  rect,
+  color,
+  author: z.string().optional(),
+  createdAt: timestamp,
+}
+
+const markupEntry = z.object({
+  ...common,
+  type: z.enum(["highlight", "underline", "strikeout"]),
+  // One quadrilateral of eight numbers per line of text.
+  quadPoints: z.array(z.array(z.number()).length(8)).min(1),
+  content: z.string(),
+})
+
+const inkEntry = z.object({
+  ...common,
+  type: z.literal("ink"),
+  paths: z.array(z.array(point).min(1)).min(1),
+  pressures: z.array(z.array(z.number().min(0).max(1))).optional(),
+  width: z.number().positive(),
+  opacity: z.number().gt(0).max(1).optional(),
+})
+
+const shapeEntry = z.object({
+  ...common,
+  type: z.enum(["rectangle", "ellipse", "line", "arrow"]),
+  start: point,
+  end: point,
+  width: z.number().positive(),
+})
+
+const replyEntry = z.object({
+  id: z.string().min(1),
+  author: z.string(),
+  content: z.string(),
+  createdAt: timestamp,
+})
+
+const noteEntry = z.object({
+  ...common,
+  type: z.literal("note"),
+  author: z.string(),
+  content: z.string().min(1),
+  status: z.enum(["open", "resolved"]),
+  replies: z.array(replyEntry),
+})
+
+export const annotationEntrySchema = z.discriminatedUnion("type", [markupEntry, inkEntry, shapeEntry, noteEntry])
+
+export const annotationFileSchema = z.object({
+  format: z.literal(ANNOTATION_FORMAT),
+  version: z.literal(1),
+  document: z.object({ name: z.string().optional(), hash: z.string().optional() }).optional(),
+  annotations: z.array(annotationEntrySchema),
+})
+
+// Written out rather than inferred: with strict mode off, zod infers every
+// property as optional.
+interface EntryBase {
+  id: string
+  page: number
+  rect: PDFRect
+  color: string
+  author?: string
+  createdAt: string
+}
+
+export type AnnotationEntry =
+  | (EntryBase & { type: MarkupType; quadPoints: number[][]; content: string })
+  | (EntryBase & {
+      type: "ink"
+      paths: [number, number][][]
+      pressures?: number[][]
+      width: number
+      opacity?: number
+    })
+  | (EntryBase & { type: ShapeType; start: [number, number]; end: [number, number]; width: number })
+  | (EntryBase & {
+      type: "note"
+      author: string
+      content: string
+      status: CommentStatus
+      replies: { id: string; author: string; content: string; createdAt: string }[]
+    })
+
+export interface AnnotationFile {
+  format: typeof ANNOTATION_FORMAT
+  version: 1
+  document?: { name?: string; hash?: string }
+  annotations: AnnotationEntry[]
+}
+
+// What zod infers here differs from the types above only in ways that don't
+// matter: with strict mode off every property is optional and every tuple gets
+// a `...unknown[]` tail, which is what is left once the tuple's own elements
+// have been taken off. Both sides are normalized before they are compared.
+type Normalized<T> = T extends []
+  ? []
+  : T extends [infer Head, ...infer Tail]
+    ? [Normalized<Head>, ...(Normalized<Tail> extends infer Rest extends unknown[] ? Rest : never)]
+    : T extends (infer Item)[]
+      ? [unknown, keyof Item] extends [Item, never]
+        ? []
+        : Normalized<Item>[]
+      : T extends object
+        ? { [K in keyof T]-?: Normalized<T[K]> }
+        : T
+
+// `true` only when the schema accepts exactly the values of type T.
+type MatchesSchema<Schema extends z.ZodTypeAny, T> = [Normalized<z.infer<Schema>>] extends [Normalized<T>]
+  ? [Normalized<T>] extends [Normalized<z.infer<Schema>>]
+    ? true
+    : false
+  : false
+
+// Fails to compile when a schema and its type drift apart, which is what
+// makes the casts in the validators below safe.
+const schemasMatchTypes: [
+  MatchesSchema<typeof annotationEntrySchema, AnnotationEntry>,
+  MatchesSchema<typeof annotationFileSchema, AnnotationFile>,
+] = [true, true]
+
+const validate = <T>(schema: z.ZodType, data: unknown) => {
+  const result = schema.safeParse(data)
+  return result.success
+    ? { success: true as const, data: result.data as T }
+    : { success: false as const, error: result.error }
+}
+
+export const validateEntry = (data: unknown) => validate<AnnotationEntry>(annotationEntrySchema, data)
+
+const validateFile = (data: unknown) => validate<AnnotationFile>(annotationFileSchema, data)
+
+/**
+ * A file that isn't valid JSON or XFDF, or doesn't match the format. `issues`
+ * has one line per problem, each naming where in the file it is.
+ */
+export class AnnotationFileError extends Error {
+  readonly issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = "AnnotationFileError"
+    this.issues = issues
+  }
+}
+
+export const formatIssues = (error: z.ZodError, describePath: (path: (string | number)[]) => string) =>
+  error.issues.map((issue) => `${describePath(issue.path)}: ${issue.message}`)
+
+const jsonPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (text, part) => (typeof part === "number" ? `${text}[${part}]` : text ? `${text}.${part}` : part),
+    ""
+  ) || "(file)"
+
+export const toAnnotationEntry = (annotation: Annotation): AnnotationEntry => {
+  const common = {
+    id: annotation.id,
+    page: annotation.pageNumber - 1,
+    rect: getAnnotationRect(annotation),
+    color: annotation.color,
+    author: annotation.author,
+    createdAt: new Date(annotation.createdAt).toISOString(),
+  }
+  switch (annotation.type) {
+    case "note":
+      return {
+        ...common,
+        type: "note",
+        author: annotation.author,
+        content: annotation.text,
+        status: annotation.status,
+        replies: annotation.replies.map((reply) => ({
+          id: reply.id,
+          author: reply.author,
+          content: reply.text,
+          createdAt: new Date(reply.createdAt).toISOString(),
+        })),
+      }
+    case "ink":
+      return {
+        ...common,
+        type: "ink",
+        paths: annotation.paths,
+        pressures: annotation.pressures,
+        width: annotation.width,
+        opacity: annotation.opacity,
+      }
+    case "rectangle":
+    case "ellipse":
+    case "line":
+    case "arrow":
+      return { ...common, type: annotation.type, start: annotation.start, end: annotation.end, width: annotation.width }
+    default:
+      return {
+        ...common,
+        type: annotation.type,
+        quadPoints: annotation.rects.map(rectToQuad),
+        content: annotation.text,
+      }
+  }
+}
+
+export const fromAnnotationEntry = (entry: AnnotationEntry): Annotation => {
+  const common = {
+    id: entry.id,
+    pageNumber: entry.page + 1,
+    color: entry.color.toLowerCase(),
+    createdAt: Date.parse(entry.createdAt),
+  }
+  switch (entry.type) {
+    case "note":
+      return {
+        ...common,
+        type: "note",
+        point: [entry.rect[0], entry.rect[3]],
+        author: entry.author,
+        text: entry.content,
+        status: entry.status,
+        replies: entry.replies.map((reply) => ({
+          id: reply.id,
+          author: reply.author,
+          text: reply.content,
+          createdAt: Date.parse(reply.createdAt),
+        })),
+      }
+    case "ink":
+      return {
+        ...common,
+        type: "ink",
+        paths: entry.paths,
+        pressures: entry.pressures,
+        width: entry.width,
+        opacity: entry.opacity,
+        author: entry.author,
+      }
+    case "rectangle":
+    case "ellipse":
+    case "line":
+    case "arrow":
+      return {
+        ...common,
+        type: entry.type,
+        start: entry.start,
+        end: entry.end,
+        width: entry.width,
+        author: entry.author,
+      }
+    default:
+      return {
+        ...common,
+        type: entry.type,
+        rects: entry.quadPoints.map(quadToRect),
+        text: entry.content,
+        author: entry.author,
+      }
+  }
+}
+
+/**
+ * What the schema alone can't check: that every entry lies on a page the
+ * document has, and that ink pressures line up with the points they belong to.
+ */
+export const entryIssues = (
+  entries: AnnotationEntry[],
+  pageCount: number,
+  describe: (index: number, field: string) => string
+) =>
+  entries.flatMap((entry, index) => {
+    const issues: string[] = []
+    if (entry.page >= pageCount) {
+      issues.push(
+        `${describe(index, "page")}: Page ${entry.page} is past the end of the document ` +
+          `(${pageCount} ${pageCount === 1 ? "page" : "pages"})`
+      )
+    }
+    if (entry.type === "ink" && entry.pressures) {
+      const { paths, pressures } = entry
+      const lineUp =
+        pressures.length === paths.length && pressures.every((values, path) => values.length === paths[path].length)
+      if (!lineUp) {
+        issues.push(`${describe(index, "pressures")}: Expected one pressure for each point of paths`)
+      }
+    }
+    return issues
+  })
+
+export const toAnnotationJSON = (annotations: Annotation[], document: AnnotationFile["document"]) => {
+  const file: AnnotationFile = {
+    format: ANNOTATION_FORMAT,
+    version: 1,
+    document,
+    // Notes still waiting for their first comment aren't worth sharing.
+    annotations: annotations
+      .filter((annotation) => annotation.type !== "note" || annotation.text !== "")
+      .map(toAnnotationEntry),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Reads annotations from the JSON format, throwing an AnnotationFileError that
+ * lists every mismatch when the file isn't valid.
+ */
+export const parseAnnotationJSON = (text: string, pageCount: number): Annotation[] => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (err) {
+    throw new AnnotationFileError("The file isn't valid JSON", [err instanceof Error ? err.message : String(err)])
+  }
+  const result = validateFile(data)
+  if (!result.success) {
+    throw new AnnotationFileError("The file doesn't match the annotation format", formatIssues(result.error, jsonPath))
+  }
+  const issues = entryIssues(result.data.annotations, pageCount, (index, field) => `annotations[${index}].${field}`)
+  if (issues.length > 0) {
+    throw new AnnotationFileError("The file doesn't fit this document", issues)
+  }
+  return result.data.annotations.map(fromAnnotationEntry)
+}
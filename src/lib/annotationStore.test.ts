@@ -0,0 +1,91 @@
+import assert from "node:assert/strict"
+import { afterEach, describe, it } from "node:test"
+import type { AnnotationBackend } from "@/lib/annotationBackend"
+import type { Annotation } from "@/lib/annotations"
+import { getAnnotations, setAnnotationBackend, setAnnotations, subscribeToAnnotations } from "@/lib/annotationStore"
+
+const HIGHLIGHT: Annotation = {
+  id: "highlight-1",
+  type: "highlight",
+  pageNumber: 1,
+  rects: [[10, 700, 200, 712]],
+  color: "#fde047",
+  text: "marked text",
+  createdAt: 0,
+}
+
+// Keeps annotations in memory and lets the test announce changes made elsewhere.
+const memoryBackend = (stored: Record<string, Annotation[]> = {}) => {
+  const watchers = new Map<string, () => void>()
+  const backend: AnnotationBackend = {
+    load: async (documentHash) => stored[documentHash] ?? [],
+    save: async (documentHash, annotations) => {
+      stored[documentHash] = annotations
+    },
+    watch: (documentHash, onChange) => {
+      watchers.set(documentHash, onChange)
+      return () => watchers.delete(documentHash)
+    },
+  }
+  return { backend, stored, changeElsewhere: (documentHash: string) => watchers.get(documentHash)?.() }
+}
+
+// Resolves on the next notification for the document.
+const nextChange = (documentHash: string) =>
+  new Promise<void>((resolve) => {
+    const unsubscribe = subscribeToAnnotations(documentHash, () => {
+      unsubscribe()
+      resolve()
+    })
+  })
+
+describe("annotationStore", () => {
+  let unsubscribe = () => {}
+  afterEach(() => unsubscribe())
+
+  it("loads a document once its first viewer subscribes", async () => {
+    setAnnotationBackend(memoryBackend({ doc: [HIGHLIGHT] }).backend)
+    assert.equal(getAnnotations("doc"), null)
+    const loaded = new Promise<void>((resolve) => {
+      unsubscribe = subscribeToAnnotations("doc", resolve)
+    })
+    await loaded
+    assert.deepEqual(getAnnotations("doc"), [HIGHLIGHT])
+  })
+
+  it("shows saved annotations right away and stores them in the backend", async () => {
+    const { backend, stored } = memoryBackend()
+    setAnnotationBackend(backend)
+    let notified = 0
+    unsubscribe = subscribeToAnnotations("doc", () => notified++)
+    const saving = setAnnotations("doc", [HIGHLIGHT])
+    assert.deepEqual(getAnnotations("doc"), [HIGHLIGHT])
+    assert.ok(notified > 0)
+    await saving
+    assert.deepEqual(stored.doc, [HIGHLIGHT])
+  })
+
+  it("reloads when the backend reports a change made elsewhere", async () => {
+    const { backend, stored, changeElsewhere } = memoryBackend()
+    setAnnotationBackend(backend)
+    unsubscribe = subscribeToAnnotations("doc", () => {})
+    await nextChange("doc")
+    stored.doc = [HIGHLIGHT]
+    const changed = nextChange("doc")
+    changeElsewhere("doc")
+    await changed
+    assert.deepEqual(getAnnotations("doc"), [HIGHLIGHT])
+  })
+
+  it("ignores a replaced backend that answers late", async () => {
+    let answer: (annotations: Annotation[]) => void = () => {}
+    setAnnotationBackend({ load: () => new Promise((resolve) => (answer = resolve)), save: async () => {} })
+    unsubscribe = subscribeToAnnotations("doc", () => {})
+    const reloaded = nextChange("doc")
+    setAnnotationBackend(memoryBackend().backend)
+    await reloaded
+    answer([HIGHLIGHT])
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    assert.deepEqual(getAnnotations("doc"), [])
+  })
+})
@@ -0,0 +1,83 @@
+import type { Annotation } from "@/lib/annotations"
+import { localStorageBackend, type AnnotationBackend } from "@/lib/annotationBackend"
+
+let backend: AnnotationBackend = localStorageBackend
+
+// Loaded lists, so every viewer showing a document gets the same array until
+// it changes. Tabs with the same document therefore stay in sync.
+const snapshots = new Map<string, Annotation[]>()
+const listeners = new Map<string, Set<() => void>>()
+const stopWatching = new Map<string, () => void>()
+
+const notify = (documentHash: string) => listeners.get(documentHash)?.forEach((listener) => listener())
+
+const load = (documentHash: string) => {
+  const from = backend
+  from
+    .load(documentHash)
+    .then((annotations) => {
+      // Ignore answers from a backend that has since been replaced.
+      if (from === backend) {
+        snapshots.set(documentHash, annotations)
+        notify(documentHash)
+      }
+    })
+    .catch((err) => console.warn("Could not load annotations:", documentHash, err))
+}
+
+const watch = (documentHash: string) => {
+  const stop = backend.watch?.(documentHash, () => load(documentHash))
+  if (stop) {
+    stopWatching.set(documentHash, stop)
+  }
+}
+
+/**
+ * Switches to another storage backend and reloads every open document from it.
+ */
+export const setAnnotationBackend = (next: AnnotationBackend) => {
+  stopWatching.forEach((stop) => stop())
+  stopWatching.clear()
+  snapshots.clear()
+  backend = next
+  listeners.forEach((_, documentHash) => {
+    watch(documentHash)
+    load(documentHash)
+    notify(documentHash)
+  })
+}
+
+// Null until the backend has answered.
+export const getAnnotations = (documentHash: string): Annotation[] | null => snapshots.get(documentHash) ?? null
+
+/**
+ * Updates every viewer right away and resolves once the backend has stored
+ * the list.
+ */
+export const setAnnotations = (documentHash: string, annotations: Annotation[]) => {
+  snapshots.set(documentHash, annotations)
+  notify(documentHash)
+  return backend.save(documentHash, annotations)
+}
+
+export const subscribeToAnnotations = (documentHash: string, listener: () => void) => {
+  let documentListeners = listeners.get(documentHash)
+  if (!documentListeners) {
+    documentListeners = new Set()
+    listeners.set(documentHash, documentListeners)
+    // The first viewer of a document (re)reads it, in case it changed while
+    // nobody was watching.
+    watch(documentHash)
+    load(documentHash)
+  }
+  documentListeners.add(listener)
+
+  return () => {
+    documentListeners.delete(listener)
+    if (documentListeners.size === 0) {
+      listeners.delete(documentHash)
+      stopWatching.get(documentHash)?.()
+      stopWatching.delete(documentHash)
+    }
+  }
+}
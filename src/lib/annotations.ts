@@ -0,0 +1,191 @@
+export type MarkupType = "highlight" | "underline" | "strikeout"
+
+// x1, y1, x2, y2 in PDF user space, with x1 <= x2 and y1 <= y2. Stored this
+// way the marks don't depend on the zoom or rotation they were made at.
+export type PDFRect = [number, number, number, number]
+
+export interface MarkupAnnotation {
+  id: string
+  type: MarkupType
+  pageNumber: number
+  // One rect per line of marked text.
+  rects: PDFRect[]
+  color: string
+  text: string
+  // Missing on marks made before a name was known.
+  author?: string
+  createdAt: number
+}
+
+/**
+ * Freehand strokes, each a list of points in PDF user space.
+ */
+export interface InkAnnotation {
+  id: string
+  type: "ink"
+  pageNumber: number
+  paths: [number, number][][]
+  // Pen pressure from 0 to 1 for each point of `paths`, when drawn with a
+  // stylus; the stroke is `width` wide at full pressure.
+  pressures?: number[][]
+  color: string
+  // Stroke width in PDF units, so it scales with the page.
+  width: number
+  // Below 1 for the marker, which also multiplies with the page like a highlight.
+  opacity?: number
+  author?: string
+  createdAt: number
+}
+
+export type ShapeType = "rectangle" | "ellipse" | "line" | "arrow"
+
+/**
+ * A shape drawn from `start` to `end` in PDF user space: opposite corners of
+ * the box around a rectangle or ellipse, the ends of a line, or the tail and
+ * tip of an arrow.
+ */
+export interface ShapeAnnotation {
+  id: string
+  type: ShapeType
+  pageNumber: number
+  start: [number, number]
+  end: [number, number]
+  color: string
+  width: number
+  author?: string
+  createdAt: number
+}
+
+export type CommentStatus = "open" | "resolved"
+
+export interface CommentReply {
+  id: string
+  author: string
+  text: string
+  createdAt: number
+}
+
+/**
+ * A sticky note pinned to a point on the page, with the discussion about it.
+ * `text` is empty only while the first comment is still being written.
+ */
+export interface NoteAnnotation {
+  id: string
+  type: "note"
+  pageNumber: number
+  // Top-left corner of the note icon, in PDF user space.
+  point: [number, number]
+  color: string
+  author: string
+  text: string
+  createdAt: number
+  status: CommentStatus
+  replies: CommentReply[]
+}
+
+export type Annotation = MarkupAnnotation | InkAnnotation | ShapeAnnotation | NoteAnnotation
+
+// Everything drawn on the page itself, as opposed to notes and their threads.
+export type PageMark = Exclude<Annotation, NoteAnnotation>
+
+export type AnnotationType = Annotation["type"]
+
+export const isMarkup = (annotation: Annotation): annotation is MarkupAnnotation =>
+  annotation.type === "highlight" || annotation.type === "underline" || annotation.type === "strikeout"
+
+export const isInk = (annotation: Annotation): annotation is InkAnnotation => annotation.type === "ink"
+
+export const isShape = (annotation: Annotation): annotation is ShapeAnnotation =>
+  annotation.type === "rectangle" ||
+  annotation.type === "ellipse" ||
+  annotation.type === "line" ||
+  annotation.type === "arrow"
+
+// What the drawing tools make, and the eraser removes.
+export type Drawing = InkAnnotation | ShapeAnnotation
+
+export const isDrawing = (annotation: Annotation): annotation is Drawing => isInk(annotation) || isShape(annotation)
+
+export const isPageMark = (annotation: Annotation): annotation is PageMark => annotation.type !== "note"
+
+export const isNote = (annotation: Annotation): annotation is NoteAnnotation => annotation.type === "note"
+
+export interface MarkupColor {
+  name: string
+  value: string
+}
+
+export const HIGHLIGHT_COLORS: MarkupColor[] = [
+  { name: "Yellow", value: "#fde047" },
+  { name: "Green", value: "#86efac" },
+  { name: "Blue", value: "#93c5fd" },
+  { name: "Pink", value: "#f9a8d4" },
+]
+
+// Underlines and strikeouts use the colour reviewers expect from paper markup.
+export const LINE_MARKUP_COLOR = "#e11d48"
+
+export const NOTE_COLOR = "#facc15"
+
+// Ink colours for drawing, dark enough to read on paper-white pages.
+export const DRAWING_COLORS: MarkupColor[] = [
+  { name: "Black", value: "#111827" },
+  { name: "Red", value: "#dc2626" },
+  { name: "Blue", value: "#2563eb" },
+  { name: "Green", value: "#16a34a" },
+  { name: "Orange", value: "#ea580c" },
+]
+
+// Stroke widths offered by the drawing tools, in PDF units.
+export const DRAWING_WIDTHS = [1, 2, 4, 8]
+
+// The marker draws a broad translucent stroke, like a felt-tip highlighter.
+export const MARKER_OPACITY = 0.4
+export const MARKER_WIDTH_FACTOR = 4
+
+export type DrawingTool = "pen" | "marker" | ShapeType | "eraser"
+
+export interface DrawingSettings {
+  tool: DrawingTool
+  color: string
+  // Stroke width in PDF units; the marker draws wider than this.
+  width: number
+}
+
+// Files annotations are exported to and imported from, besides the PDF itself.
+export type AnnotationFileFormat = "xfdf" | "json"
+
+export const ANNOTATION_LABELS: Record<AnnotationType, string> = {
+  highlight: "Highlight",
+  underline: "Underline",
+  strikeout: "Strikeout",
+  ink: "Ink",
+  rectangle: "Rectangle",
+  ellipse: "Ellipse",
+  line: "Line",
+  arrow: "Arrow",
+  note: "Note",
+}
+
+// The highest point of the annotation in PDF user space, where y grows upwards.
+export const getAnnotationTop = (annotation: Annotation) => {
+  switch (annotation.type) {
+    case "note":
+      return annotation.point[1]
+    case "ink":
+      return Math.max(...annotation.paths.flat().map(([, y]) => y))
+    case "rectangle":
+    case "ellipse":
+    case "line":
+    case "arrow":
+      return Math.max(annotation.start[1], annotation.end[1])
+    default:
+      return Math.max(...annotation.rects.map((rect) => rect[3]))
+  }
+}
+
+export const sortAnnotations = <T extends Annotation>(annotations: T[]) =>
+  [...annotations].sort(
+    (a, b) =>
+      a.pageNumber - b.pageNumber || getAnnotationTop(b) - getAnnotationTop(a) || a.createdAt - b.createdAt
+  )
@@ -0,0 +1,6 @@
+const STORAGE_KEY = "pdf-viewer:comment-author"
+
+// Comments are signed with a name the reviewer types once per browser.
+export const getCommentAuthor = () => localStorage.getItem(STORAGE_KEY) ?? ""
+
+export const setCommentAuthor = (name: string) => localStorage.setItem(STORAGE_KEY, name.trim())
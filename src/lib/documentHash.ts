@@ -0,0 +1,8 @@
+/**
+ * SHA-256 of the document bytes as hex. Identifies a document by content, so
+ * the same file opened from another URL or from disk is recognised.
+ */
+export const hashDocument = async (data: Uint8Array) => {
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
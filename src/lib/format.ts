@@ -0,0 +1,15 @@
+const UNITS = ["B", "KB", "MB", "GB"]
+
+export const formatBytes = (bytes: number) => {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`
+}
+
+const TIMESTAMP_FORMAT = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" })
+
+export const formatTimestamp = (time: number) => TIMESTAMP_FORMAT.format(time)
@@ -0,0 +1,526 @@
+import {
+  degrees,
+  PDFArray,
+  PDFHexString,
+  PDFName,
+  PDFRef,
+  PDFString,
+  type PDFContext,
+  type PDFObject,
+  type PDFPage,
+} from "pdf-lib"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import {
+  getAnnotationRect,
+  getArrowHead,
+  getArrowHeadLength,
+  markupBand,
+  noteIconRect,
+  normalizeRect,
+  rectToQuad,
+} from "@/lib/annotationGeometry"
+import {
+  HIGHLIGHT_COLORS,
+  LINE_MARKUP_COLOR,
+  NOTE_COLOR,
+  type Annotation,
+  type CommentReply,
+  type InkAnnotation,
+  type MarkupAnnotation,
+  type MarkupType,
+  type NoteAnnotation,
+  type PDFRect,
+  type ShapeAnnotation,
+} from "@/lib/annotations"
+import { parsePDFDate } from "@/lib/pdfDate"
+import { appendRevision, loadForRevision } from "@/lib/pdfRevision"
+
+// Annotations read from a file keep the object they came from in their id,
+// so importing twice doesn't duplicate them and exporting doesn't write them
+// back into the file they are already in.
+const IMPORTED_PREFIX = "pdf:"
+
+export const isImported = (annotation: Annotation) => annotation.id.startsWith(IMPORTED_PREFIX)
+
+const SUBTYPES: Record<MarkupType, string> = {
+  highlight: "Highlight",
+  underline: "Underline",
+  strikeout: "StrikeOut",
+}
+
+const MARKUP_TYPES: Record<string, MarkupType> = {
+  Highlight: "highlight",
+  Underline: "underline",
+  StrikeOut: "strikeout",
+}
+
+// Matches the on-screen highlight, drawn with multiply at 60% opacity.
+const HIGHLIGHT_OPACITY = 0.6
+// Annotation flags: Print, plus NoZoom and NoRotate for note icons.
+const PRINT_FLAG = 4
+const NOTE_FLAGS = PRINT_FLAG | 8 | 16
+// How far a Bézier control point sits from the end of a quarter ellipse, as a
+// fraction of the radius.
+const ELLIPSE_KAPPA = 0.5523
+
+const formatNumber = (value: number) => String(Number(value.toFixed(3)))
+
+const rgb = (hex: string) => [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16) / 255)
+
+const toHex = (color: ArrayLike<number> | null | undefined, fallback: string) =>
+  color && color.length === 3
+    ? `#${Array.from(color, (channel) => channel.toString(16).padStart(2, "0")).join("")}`
+    : fallback
+
+// pdf-lib doesn't export the literal types its context.obj() accepts.
+type PDFLiteral = string | number | boolean | PDFObject | PDFLiteral[] | { [key: string]: PDFLiteral }
+type PDFLiteralDict = { [key: string]: PDFLiteral }
+
+class AnnotationWriter {
+  // Every object the revision adds or changes.
+  readonly changed: PDFRef[] = []
+  private readonly annots = new Map<PDFPage, PDFArray>()
+
+  constructor(private readonly context: PDFContext) {}
+
+  register(object: PDFLiteralDict) {
+    const ref = this.context.register(this.context.obj(object))
+    this.changed.push(ref)
+    return ref
+  }
+
+  appearance(rect: PDFRect, content: string, resources?: PDFLiteralDict) {
+    const stream = this.context.stream(content, {
+      Type: "XObject",
+      Subtype: "Form",
+      BBox: rect,
+      ...(resources ? { Resources: resources } : {}),
+    })
+    const ref = this.context.register(stream)
+    this.changed.push(ref)
+    return this.context.obj({ N: ref })
+  }
+
+  rotate(page: PDFPage, extra: number) {
+    page.setRotation(degrees((page.getRotation().angle + extra) % 360))
+    if (!this.changed.includes(page.ref)) {
+      this.changed.push(page.ref)
+    }
+  }
+
+  // The page's /Annots array, written back with the revision.
+  annotsOf(page: PDFPage) {
+    const known = this.annots.get(page)
+    if (known) {
+      return known
+    }
+    const raw = page.node.get(PDFName.of("Annots"))
+    let annots: PDFArray
+    if (raw instanceof PDFRef) {
+      annots = this.context.lookup(raw, PDFArray)
+      this.changed.push(raw)
+    } else {
+      annots = raw instanceof PDFArray ? raw : this.context.obj([])
+      page.node.set(PDFName.of("Annots"), annots)
+      if (!this.changed.includes(page.ref)) {
+        this.changed.push(page.ref)
+      }
+    }
+    this.annots.set(page, annots)
+    return annots
+  }
+
+  add(page: PDFPage, entries: PDFLiteralDict) {
+    const ref = this.register({ Type: "Annot", P: page.ref, ...entries })
+    this.annotsOf(page).push(ref)
+    return ref
+  }
+}
+
+const commonEntries = (id: string, color: string, createdAt: number, author?: string) => ({
+  NM: PDFString.of(id),
+  ...(author ? { T: PDFHexString.fromText(author) } : {}),
+  C: rgb(color),
+  F: PRINT_FLAG,
+  CreationDate: PDFString.fromDate(new Date(createdAt)),
+  M: PDFString.fromDate(new Date(createdAt)),
+})
+
+const writeMarkup = (writer: AnnotationWriter, page: PDFPage, annotation: MarkupAnnotation, pageRotate: number) => {
+  const rect = getAnnotationRect(annotation)
+  const bands = annotation.rects.map((line) => markupBand(line, annotation.type, pageRotate))
+  const fill = `${rgb(annotation.color).map(formatNumber).join(" ")} rg`
+  const boxes = bands
+    .map(([x1, y1, x2, y2]) => [x1, y1, x2 - x1, y2 - y1].map(formatNumber).join(" ") + " re")
+    .join("\n")
+  const isHighlight = annotation.type === "highlight"
+  writer.add(page, {
+    Subtype: SUBTYPES[annotation.type],
+    Rect: rect,
+    QuadPoints: annotation.rects.flatMap(rectToQuad),
+    Contents: PDFHexString.fromText(annotation.text),
+    ...commonEntries(annotation.id, annotation.color, annotation.createdAt, annotation.author),
+    AP: isHighlight
+      ? writer.appearance(rect, `/GS0 gs\n${fill}\n${boxes}\nf`, {
+          ExtGState: { GS0: { Type: "ExtGState", BM: "Multiply", ca: HIGHLIGHT_OPACITY } },
+        })
+      : writer.appearance(rect, `${fill}\n${boxes}\nf`),
+  })
+}
+
+const point = ([x, y]: [number, number]) => `${formatNumber(x)} ${formatNumber(y)}`
+
+const strokeStyle = (width: number, color: string) =>
+  `${formatNumber(width)} w 1 J 1 j\n${rgb(color).map(formatNumber).join(" ")} RG`
+
+// Marker strokes multiply with the page like highlights do.
+const multiply = (opacity: number) => ({
+  ExtGState: { GS0: { Type: "ExtGState", BM: "Multiply", CA: opacity } },
+})
+
+const writeInk = (writer: AnnotationWriter, page: PDFPage, annotation: InkAnnotation) => {
+  const rect = getAnnotationRect(annotation)
+  const { paths, pressures, width, opacity = 1 } = annotation
+  const strokes = paths
+    .map((path, pathIndex) => {
+      const pathPressures = pressures?.[pathIndex]
+      if (!pathPressures || path.length === 1) {
+        // A single point still gets a segment, so the round cap draws a dot.
+        const points = [path[0], ...(path.length === 1 ? path : path.slice(1))]
+        const lines = points.map((vertex, index) => `${point(vertex)} ${index === 0 ? "m" : "l"}`)
+        // Reset the width, which a previous stroke with pressure may have changed.
+        return `${formatNumber(width)} w\n${lines.join("\n")}\nS`
+      }
+      // Width follows the pen, as on screen, so each segment is stroked on its own.
+      return path
+        .slice(1)
+        .map((end, index) => {
+          const pressure = (pathPressures[index] + pathPressures[index + 1]) / 2
+          return `${formatNumber(width * pressure)} w ${point(path[index])} m ${point(end)} l S`
+        })
+        .join("\n")
+    })
+    .join("\n")
+  const isMarker = opacity < 1
+  writer.add(page, {
+    Subtype: "Ink",
+    Rect: rect,
+    InkList: paths.map((path) => path.flat()),
+    BS: { W: width, S: "S" },
+    ...commonEntries(annotation.id, annotation.color, annotation.createdAt, annotation.author),
+    AP: writer.appearance(
+      rect,
+      `${isMarker ? "/GS0 gs\n" : ""}${strokeStyle(width, annotation.color)}\n${strokes}`,
+      isMarker ? multiply(opacity) : undefined
+    ),
+  })
+}
+
+// Four Bézier curves, one per quarter, starting at the right-hand end.
+const ellipsePath = ([x1, y1, x2, y2]: PDFRect) => {
+  const [cx, cy, rx, ry] = [(x1 + x2) / 2, (y1 + y2) / 2, (x2 - x1) / 2, (y2 - y1) / 2]
+  const [kx, ky] = [rx * ELLIPSE_KAPPA, ry * ELLIPSE_KAPPA]
+  const curve = (...points: [number, number][]) => `${points.map(point).join(" ")} c`
+  return [
+    `${point([x2, cy])} m`,
+    curve([x2, cy + ky], [cx + kx, y2], [cx, y2]),
+    curve([cx - kx, y2], [x1, cy + ky], [x1, cy]),
+    curve([x1, cy - ky], [cx - kx, y1], [cx, y1]),
+    curve([cx + kx, y1], [x2, cy - ky], [x2, cy]),
+  ].join("\n")
+}
+
+const writeShape = (writer: AnnotationWriter, page: PDFPage, annotation: ShapeAnnotation) => {
+  const rect = getAnnotationRect(annotation)
+  const { type, start, end, width } = annotation
+  const common = {
+    Rect: rect,
+    BS: { W: width, S: "S" },
+    ...commonEntries(annotation.id, annotation.color, annotation.createdAt, annotation.author),
+  }
+  const style = strokeStyle(width, annotation.color)
+  if (type === "rectangle" || type === "ellipse") {
+    const [x1, y1, x2, y2] = normalizeRect([...start, ...end])
+    const path =
+      type === "rectangle"
+        ? `${[x1, y1, x2 - x1, y2 - y1].map(formatNumber).join(" ")} re`
+        : ellipsePath([x1, y1, x2, y2])
+    writer.add(page, {
+      Subtype: type === "rectangle" ? "Square" : "Circle",
+      ...common,
+      AP: writer.appearance(rect, `${style}\n${path}\nS`),
+    })
+    return
+  }
+  const head = type === "arrow" ? getArrowHead(start, end, getArrowHeadLength(width)) : null
+  writer.add(page, {
+    Subtype: "Line",
+    L: [...start, ...end],
+    LE: ["None", head ? "OpenArrow" : "None"],
+    ...common,
+    AP: writer.appearance(
+      rect,
+      [
+        style,
+        `${point(start)} m ${point(end)} l S`,
+        ...(head ? [`${point(head[0])} m ${point(end)} l ${point(head[1])} l S`] : []),
+      ].join("\n")
+    ),
+  })
+}
+
+// A speech bubble in the note's color, in the spirit of the usual Comment icon.
+const noteAppearance = (rect: PDFRect, color: string) => {
+  const [x, y] = rect
+  const size = rect[2] - rect[0]
+  const line = (offset: number) =>
+    `${formatNumber(x + 4)} ${formatNumber(y + offset)} m ${formatNumber(x + size - 4)} ${formatNumber(y + offset)} l`
+  return [
+    `${rgb(color).map(formatNumber).join(" ")} rg 0 0 0 RG 0.75 w`,
+    `${formatNumber(x + 0.5)} ${formatNumber(y + 0.5)} ${size - 1} ${size - 1} re B`,
+    `${line(13)} ${line(9.5)} ${line(6)} S`,
+  ].join("\n")
+}
+
+const writeReply = (
+  writer: AnnotationWriter,
+  page: PDFPage,
+  parent: PDFRef,
+  rect: PDFRect,
+  reply: CommentReply,
+  color: string
+) =>
+  writer.add(page, {
+    Subtype: "Text",
+    Rect: rect,
+    IRT: parent,
+    RT: "R",
+    Contents: PDFHexString.fromText(reply.text),
+    ...commonEntries(reply.id, color, reply.createdAt, reply.author),
+    F: NOTE_FLAGS,
+    // Replies live in the thread, not on the page: an empty appearance keeps
+    // readers from drawing a second icon over the note's.
+    AP: writer.appearance(rect, ""),
+  })
+
+const writeNote = (writer: AnnotationWriter, page: PDFPage, note: NoteAnnotation) => {
+  const rect = noteIconRect(note.point)
+  const ref = writer.add(page, {
+    Subtype: "Text",
+    Rect: rect,
+    Name: "Comment",
+    Open: false,
+    Contents: PDFHexString.fromText(note.text),
+    ...commonEntries(note.id, note.color, note.createdAt, note.author),
+    F: NOTE_FLAGS,
+    AP: writer.appearance(rect, noteAppearance(rect, note.color)),
+  })
+  note.replies.forEach((reply) => writeReply(writer, page, ref, rect, reply, note.color))
+  if (note.status === "resolved") {
+    // Review state is recorded as a reply carrying /State (PDF 32000-1, 12.5.6.3).
+    writer.add(page, {
+      Subtype: "Text",
+      Rect: rect,
+      IRT: ref,
+      StateModel: "Review",
+      State: "Completed",
+      Contents: PDFHexString.fromText("Completed"),
+      ...commonEntries(`${note.id}-state`, note.color, Date.now(), note.author),
+      F: NOTE_FLAGS,
+      AP: writer.appearance(rect, ""),
+    })
+  }
+}
+
+// "pdf:12R" or "pdf:12R3", the form pdf.js gives annotation ids in.
+const importedRef = (id: string) => {
+  const match = /^pdf:(\d+)R(\d*)$/.exec(id)
+  return match ? PDFRef.of(Number(match[1]), Number(match[2] || 0)) : null
+}
+
+/**
+ * Writes annotations into a PDF as real annotation dictionaries with
+ * appearance streams, appended as a new revision of the file together with
+ * the user's rotation (see applyPageRotations). Notes that haven't been posted
+ * yet are left out, as are annotations imported from the file, apart from
+ * replies added to them since.
+ */
+export const writeAnnotations = async (
+  data: Uint8Array,
+  annotations: Annotation[],
+  extraRotation: (pageNumber: number) => number
+): Promise<Uint8Array> => {
+  const pdf = await loadForRevision(data)
+  const writer = new AnnotationWriter(pdf.context)
+  const pages = pdf.getPages()
+  // Lines of text run as the page's own /Rotate has them, before the user's turn.
+  const pageRotations = pages.map((page) => page.getRotation().angle)
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.pageNumber - 1]
+    if (!page) {
+      continue
+    }
+    if (isImported(annotation)) {
+      const parent = importedRef(annotation.id)
+      if (annotation.type === "note" && parent) {
+        annotation.replies
+          .filter((reply) => !reply.id.startsWith(IMPORTED_PREFIX))
+          .forEach((reply) => writeReply(writer, page, parent, noteIconRect(annotation.point), reply, annotation.color))
+      }
+      continue
+    }
+    switch (annotation.type) {
+      case "note":
+        if (annotation.text !== "") {
+          writeNote(writer, page, annotation)
+        }
+        break
+      case "ink":
+        writeInk(writer, page, annotation)
+        break
+      case "rectangle":
+      case "ellipse":
+      case "line":
+      case "arrow":
+        writeShape(writer, page, annotation)
+        break
+      default:
+        writeMarkup(writer, page, annotation, pageRotations[annotation.pageNumber - 1])
+    }
+  }
+  pages.forEach((page, index) => {
+    const extra = extraRotation(index + 1)
+    if (extra !== 0) {
+      writer.rotate(page, extra)
+    }
+  })
+
+  return writer.changed.length === 0 ? data : appendRevision(data, pdf.context, writer.changed)
+}
+
+// The parts of pdf.js's annotation data we read; it is untyped upstream.
+interface AnnotationData {
+  id: string
+  subtype: string
+  rect: number[]
+  color: Uint8ClampedArray | null
+  contentsObj?: { str: string }
+  titleObj?: { str: string }
+  creationDate?: string | null
+  modificationDate?: string | null
+  inReplyTo?: string | null
+  replyType?: string
+  state?: string | { name: string } | null
+  quadPoints?: { x: number; y: number }[][] | null
+  inkLists?: { x: number; y: number }[][]
+  borderStyle?: { width: number }
+}
+
+const nameOf = (value: AnnotationData["state"]) => (typeof value === "string" ? value : value?.name ?? null)
+
+const createdAt = (item: AnnotationData) =>
+  parsePDFDate(item.creationDate) ?? parsePDFDate(item.modificationDate) ?? Date.now()
+
+/**
+ * Reads the highlights, underlines, strikeouts, ink, rectangles, ellipses and
+ * notes already in a document into the app's model. Replies and review states
+ * of notes become part of their thread; other annotation types are skipped.
+ * That includes lines and arrows, since pdf.js sorts the coordinates of /L and
+ * so loses which way they point.
+ */
+export const readAnnotations = async (pdf: PDFDocumentProxy): Promise<Annotation[]> => {
+  const annotations: Annotation[] = []
+  const notes = new Map<string, NoteAnnotation>()
+  const threadItems: AnnotationData[] = []
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const items: AnnotationData[] = await page.getAnnotations()
+    for (const item of items) {
+      const id = `${IMPORTED_PREFIX}${item.id}`
+      const text = item.contentsObj?.str ?? ""
+      const author = item.titleObj?.str || undefined
+      const markupType = MARKUP_TYPES[item.subtype]
+      if (markupType) {
+        const rects = item.quadPoints?.length
+          ? item.quadPoints.map((quad) => normalizeRect([quad[0].x, quad[0].y, quad[3].x, quad[3].y]))
+          : [normalizeRect(item.rect)]
+        annotations.push({
+          id,
+          type: markupType,
+          pageNumber,
+          rects,
+          color: toHex(item.color, markupType === "highlight" ? HIGHLIGHT_COLORS[0].value : LINE_MARKUP_COLOR),
+          text,
+          author,
+          createdAt: createdAt(item),
+        })
+      } else if (item.subtype === "Ink" && item.inkLists?.length) {
+        annotations.push({
+          id,
+          type: "ink",
+          pageNumber,
+          paths: item.inkLists.map((path) => path.map(({ x, y }) => [x, y] as [number, number])),
+          color: toHex(item.color, "#000000"),
+          width: item.borderStyle?.width || 1,
+          author,
+          createdAt: createdAt(item),
+        })
+      } else if (item.subtype === "Square" || item.subtype === "Circle") {
+        // The rect includes the border; the shape runs along its middle.
+        const width = item.borderStyle?.width || 1
+        const [x1, y1, x2, y2] = normalizeRect(item.rect)
+        annotations.push({
+          id,
+          type: item.subtype === "Square" ? "rectangle" : "ellipse",
+          pageNumber,
+          start: [x1 + width / 2, y1 + width / 2],
+          end: [x2 - width / 2, y2 - width / 2],
+          color: toHex(item.color, "#000000"),
+          width,
+          author,
+          createdAt: createdAt(item),
+        })
+      } else if (item.subtype === "Text" && item.inReplyTo) {
+        threadItems.push(item)
+      } else if (item.subtype === "Text") {
+        const note: NoteAnnotation = {
+          id,
+          type: "note",
+          pageNumber,
+          point: [item.rect[0], item.rect[3]],
+          color: toHex(item.color, NOTE_COLOR),
+          author: item.titleObj?.str ?? "",
+          // An empty note would read as an unposted draft.
+          text: text || "(empty note)",
+          createdAt: createdAt(item),
+          status: "open",
+          replies: [],
+        }
+        notes.set(item.id, note)
+        annotations.push(note)
+      }
+    }
+  }
+
+  // Replies can come before their note, or sit on another page.
+  for (const item of [...threadItems].sort((a, b) => createdAt(a) - createdAt(b))) {
+    const note = notes.get(item.inReplyTo!)
+    if (!note) {
+      continue
+    }
+    const state = nameOf(item.state)
+    if (state) {
+      note.status = state === "Completed" || state === "Accepted" ? "resolved" : "open"
+    } else if (item.replyType !== "Group") {
+      note.replies.push({
+        id: `${IMPORTED_PREFIX}${item.id}`,
+        author: item.titleObj?.str ?? "",
+        text: item.contentsObj?.str ?? "",
+        createdAt: createdAt(item),
+      })
+    }
+  }
+  return annotations
+}
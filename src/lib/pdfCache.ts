@@ -0,0 +1,153 @@
+const DB_NAME = "pdf-viewer-cache"
+const DB_VERSION = 1
+// Metadata and bytes live in separate stores so listing the cache doesn't
+// read every document into memory.
+const ENTRIES = "entries"
+const FILES = "files"
+const QUOTA_KEY = "pdf-viewer:cache-quota"
+
+export const DEFAULT_CACHE_QUOTA = 500 * 1024 * 1024
+
+export interface CacheValidators {
+  etag: string | null
+  lastModified: string | null
+}
+
+export interface CachedDocumentInfo extends CacheValidators {
+  url: string
+  size: number
+  cachedAt: number
+  lastAccessed: number
+}
+
+export interface CachedDocument {
+  info: CachedDocumentInfo
+  data: Uint8Array
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        db.createObjectStore(ENTRIES, { keyPath: "url" }).createIndex("lastAccessed", "lastAccessed")
+        db.createObjectStore(FILES)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const asPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+export const getCacheQuota = () => {
+  const stored = Number(localStorage.getItem(QUOTA_KEY))
+  return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_CACHE_QUOTA
+}
+
+export const setCacheQuota = async (bytes: number) => {
+  localStorage.setItem(QUOTA_KEY, String(bytes))
+  await evictToQuota(bytes)
+}
+
+export const listCachedDocuments = async (): Promise<CachedDocumentInfo[]> => {
+  const db = await openDatabase()
+  const entries = await asPromise(db.transaction(ENTRIES).objectStore(ENTRIES).getAll())
+  return (entries as CachedDocumentInfo[]).sort((a, b) => b.lastAccessed - a.lastAccessed)
+}
+
+export const isDocumentCached = async (url: string) => {
+  const db = await openDatabase()
+  const count = await asPromise(db.transaction(ENTRIES).objectStore(ENTRIES).count(url))
+  return count > 0
+}
+
+/**
+ * Returns the cached copy and marks it as recently used.
+ */
+export const getCachedDocument = async (url: string): Promise<CachedDocument | null> => {
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES, FILES], "readwrite")
+  const entries = transaction.objectStore(ENTRIES)
+  const info = (await asPromise(entries.get(url))) as CachedDocumentInfo | undefined
+  const data = (await asPromise(transaction.objectStore(FILES).get(url))) as Uint8Array | undefined
+  if (!info || !data) {
+    return null
+  }
+  const touched = { ...info, lastAccessed: Date.now() }
+  entries.put(touched)
+  await transactionDone(transaction)
+  return { info: touched, data }
+}
+
+const evictToQuota = async (quota: number) => {
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES, FILES], "readwrite")
+  const entries = transaction.objectStore(ENTRIES)
+  const all = (await asPromise(entries.index("lastAccessed").getAll())) as CachedDocumentInfo[]
+  let total = all.reduce((sum, entry) => sum + entry.size, 0)
+  // The index is ordered oldest first.
+  for (const entry of all) {
+    if (total <= quota) {
+      break
+    }
+    entries.delete(entry.url)
+    transaction.objectStore(FILES).delete(entry.url)
+    total -= entry.size
+  }
+  await transactionDone(transaction)
+}
+
+/**
+ * Stores a document, then evicts least recently used documents until the
+ * cache fits the quota. Documents larger than the whole quota aren't stored.
+ */
+export const putCachedDocument = async (url: string, data: Uint8Array, validators: CacheValidators) => {
+  const quota = getCacheQuota()
+  if (data.byteLength > quota) {
+    return
+  }
+  const now = Date.now()
+  const info: CachedDocumentInfo = { url, size: data.byteLength, cachedAt: now, lastAccessed: now, ...validators }
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES, FILES], "readwrite")
+  transaction.objectStore(ENTRIES).put(info)
+  transaction.objectStore(FILES).put(data, url)
+  await transactionDone(transaction)
+  await evictToQuota(quota)
+}
+
+export const deleteCachedDocument = async (url: string) => {
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES, FILES], "readwrite")
+  transaction.objectStore(ENTRIES).delete(url)
+  transaction.objectStore(FILES).delete(url)
+  await transactionDone(transaction)
+}
+
+export const clearPDFCache = async () => {
+  const db = await openDatabase()
+  const transaction = db.transaction([ENTRIES, FILES], "readwrite")
+  transaction.objectStore(ENTRIES).clear()
+  transaction.objectStore(FILES).clear()
+  await transactionDone(transaction)
+}
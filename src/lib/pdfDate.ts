@@ -0,0 +1,25 @@
+// Dates in PDF and XFDF files use the format of PDF 32000-1, 7.9.4, e.g.
+// D:20240131120000+01'00'.
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+export const formatPDFDate = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return (
+    `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  )
+}
+
+// Returns milliseconds since the epoch, or null for anything unparseable.
+export const parsePDFDate = (value: string | null | undefined) => {
+  const match = /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Z+-])?(\d{2})?'?(\d{2})?/.exec(value ?? "")
+  if (!match) {
+    return null
+  }
+  const [year, month = 1, day = 1, hour = 0, minute = 0, second = 0] = match.slice(1, 7).map((part) =>
+    part === undefined ? undefined : Number(part)
+  )
+  const offset = (Number(match[8] ?? 0) * 60 + Number(match[9] ?? 0)) * (match[7] === "-" ? -1 : 1)
+  return Date.UTC(year!, month - 1, day, hour, minute - offset, second)
+}
@@ -0,0 +1,67 @@
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import type { RefProxy } from "pdfjs-dist/types/src/display/api"
+
+export type ExplicitDest = (RefProxy | number | { name: string } | null)[]
+
+export interface DestinationTarget {
+  pageNumber: number
+  // Point on the page in PDF user space; null means "keep the current value".
+  left: number | null
+  top: number | null
+}
+
+const numberOrNull = (value: unknown) => (typeof value === "number" ? value : null)
+
+/**
+ * Reads the scroll position out of an explicit destination array
+ * (`[page, /XYZ left top zoom]`, `[page, /FitH top]`, ...).
+ */
+export const destinationOffset = (dest: ExplicitDest): Pick<DestinationTarget, "left" | "top"> => {
+  const mode = dest[1] && typeof dest[1] === "object" && "name" in dest[1] ? dest[1].name : null
+  const args = dest.slice(2)
+
+  switch (mode) {
+    case "XYZ":
+      return { left: numberOrNull(args[0]), top: numberOrNull(args[1]) }
+    case "FitH":
+    case "FitBH":
+      return { left: null, top: numberOrNull(args[0]) }
+    case "FitV":
+    case "FitBV":
+      return { left: numberOrNull(args[0]), top: null }
+    case "FitR":
+      return { left: numberOrNull(args[0]), top: numberOrNull(args[3]) }
+    default:
+      return { left: null, top: null }
+  }
+}
+
+const isRef = (value: unknown): value is RefProxy =>
+  typeof value === "object" && value !== null && "num" in value && "gen" in value
+
+/**
+ * Resolves a named or explicit destination to a page number and offset.
+ * Returns null when the destination does not point into this document.
+ */
+export const resolveDestination = async (
+  pdf: PDFDocumentProxy,
+  dest: string | ExplicitDest | null | undefined
+): Promise<DestinationTarget | null> => {
+  const explicit = (typeof dest === "string" ? await pdf.getDestination(dest) : dest) as ExplicitDest | null
+  if (!Array.isArray(explicit) || explicit.length === 0) {
+    return null
+  }
+
+  const [target] = explicit
+  let pageIndex: number | null = null
+  if (isRef(target)) {
+    pageIndex = await pdf.getPageIndex(target).catch(() => null)
+  } else if (typeof target === "number") {
+    pageIndex = target
+  }
+  if (pageIndex === null || pageIndex < 0 || pageIndex >= pdf.numPages) {
+    return null
+  }
+
+  return { pageNumber: pageIndex + 1, ...destinationOffset(explicit) }
+}
@@ -0,0 +1,67 @@
+export type PDFLoadErrorKind =
+  | "network"
+  | "cors"
+  | "http"
+  | "not-pdf"
+  | "corrupt"
+  | "password"
+  | "worker"
+  | "unknown"
+
+/**
+ * Why a document failed to open. `kind` decides which recovery options the
+ * viewer offers; `message` is the technical detail shown under them.
+ */
+export class PDFLoadError extends Error {
+  readonly kind: PDFLoadErrorKind
+  readonly status: number | null
+
+  constructor(kind: PDFLoadErrorKind, message: string, options: { status?: number } = {}) {
+    super(message)
+    this.name = "PDFLoadError"
+    this.kind = kind
+    this.status = options.status ?? null
+  }
+}
+
+const PDF_HEADER = "%PDF-"
+// The spec allows junk before the header; readers look within the first KB.
+const HEADER_SEARCH_BYTES = 1024
+
+export const looksLikePDF = (data: Uint8Array) => {
+  const head = new TextDecoder("latin1").decode(data.subarray(0, HEADER_SEARCH_BYTES))
+  return head.includes(PDF_HEADER)
+}
+
+/**
+ * Maps whatever pdf.js or fetch threw onto a PDFLoadError.
+ */
+export const toPDFLoadError = (error: unknown): PDFLoadError => {
+  if (error instanceof PDFLoadError) {
+    return error
+  }
+  const { name, message } = error instanceof Error ? error : { name: "", message: String(error) }
+  const status = (error as { status?: unknown } | null)?.status
+
+  switch (name) {
+    case "PasswordException":
+      return new PDFLoadError("password", message)
+    case "InvalidPDFException":
+    case "FormatError":
+      return new PDFLoadError("corrupt", message)
+    case "MissingPDFException":
+      return new PDFLoadError("http", message, { status: 404 })
+    case "UnexpectedResponseException":
+      return typeof status === "number" && status > 0
+        ? new PDFLoadError("http", message, { status })
+        : new PDFLoadError("network", message)
+  }
+  if (/worker/i.test(message)) {
+    return new PDFLoadError("worker", message)
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError for network failures and CORS refusals alike.
+    return new PDFLoadError("network", message)
+  }
+  return new PDFLoadError("unknown", message || "Failed to load PDF")
+}
@@ -0,0 +1,83 @@
+import { degrees, PDFDocument, type PDFRef } from "pdf-lib"
+import { appendRevision, prepareForRevision } from "@/lib/pdfRevision"
+
+/**
+ * Writes the user's rotation into the document so other viewers show the
+ * pages the same way. `extraRotation` is added to each page's own /Rotate.
+ * The changed pages are appended as a new revision, which encrypted documents
+ * can't take, so those throw. Returns the input unchanged when nothing is
+ * rotated.
+ */
+export const applyPageRotations = async (
+  data: Uint8Array,
+  extraRotation: (pageNumber: number) => number
+): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false })
+  const pages = pdf.getPages()
+  const changed = pages.some((_, index) => extraRotation(index + 1) !== 0)
+  if (!changed) {
+    return data
+  }
+
+  prepareForRevision(pdf, data)
+  const rotated: PDFRef[] = []
+  pages.forEach((page, index) => {
+    const extra = extraRotation(index + 1)
+    if (extra !== 0) {
+      page.setRotation(degrees((page.getRotation().angle + extra) % 360))
+      rotated.push(page.ref)
+    }
+  })
+  return appendRevision(data, pdf.context, rotated)
+}
+
+export const downloadPDF = (data: Uint8Array, fileName: string) =>
+  downloadFile(new Blob([data], { type: "application/pdf" }), fileName)
+
+export const downloadFile = (blob: Blob, fileName: string) => {
+  const downloadUrl = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = downloadUrl
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(downloadUrl)
+}
+
+/**
+ * Prints a PDF through the browser's own viewer in a hidden frame, which
+ * prints at full resolution instead of the canvases on screen.
+ */
+export const printPDF = (data: Uint8Array) =>
+  new Promise<void>((resolve, reject) => {
+    const blob = new Blob([data], { type: "application/pdf" })
+    const printUrl = URL.createObjectURL(blob)
+    const frame = document.createElement("iframe")
+    frame.style.position = "fixed"
+    frame.style.width = "0"
+    frame.style.height = "0"
+    frame.style.border = "0"
+    frame.src = printUrl
+
+    const cleanup = () => {
+      // The print dialog may still be reading the frame; give it time.
+      setTimeout(() => {
+        frame.remove()
+        URL.revokeObjectURL(printUrl)
+      }, 60_000)
+    }
+
+    frame.onload = () => {
+      try {
+        frame.contentWindow?.focus()
+        frame.contentWindow?.print()
+        resolve()
+      } catch (err) {
+        reject(err)
+      } finally {
+        cleanup()
+      }
+    }
+    document.body.appendChild(frame)
+  })
@@ -0,0 +1,26 @@
+const STORAGE_PREFIX = "pdf-viewer:password:"
+
+// sessionStorage keeps passwords for this tab only; they are gone once it closes.
+export const getSessionPassword = (documentKey: string) => {
+  try {
+    return sessionStorage.getItem(STORAGE_PREFIX + documentKey)
+  } catch {
+    return null
+  }
+}
+
+export const rememberSessionPassword = (documentKey: string, password: string) => {
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + documentKey, password)
+  } catch {
+    // Storage can be unavailable (private mode, quota); the user just types it again.
+  }
+}
+
+export const forgetSessionPassword = (documentKey: string) => {
+  try {
+    sessionStorage.removeItem(STORAGE_PREFIX + documentKey)
+  } catch {
+    // See above.
+  }
+}
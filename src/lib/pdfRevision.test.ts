@@ -0,0 +1,121 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { degrees, PDFDocument, PDFName } from "pdf-lib"
+import { appendRevision, loadForRevision } from "@/lib/pdfRevision"
+
+const decoder = new TextDecoder("latin1")
+
+const createPDF = async (useObjectStreams: boolean) => {
+  const pdf = await PDFDocument.create({ updateMetadata: false })
+  pdf.addPage([200, 100])
+  pdf.addPage([200, 100])
+  return pdf.save({ useObjectStreams })
+}
+
+// Rotates the first page and adds a new object, the two kinds of change a
+// revision carries.
+const revise = async (data: Uint8Array) => {
+  const pdf = await loadForRevision(data)
+  const page = pdf.getPage(0)
+  page.setRotation(degrees(90))
+  const added = pdf.context.register(pdf.context.obj({ Type: "Annot", Subtype: "Text", Rect: [0, 0, 10, 10] }))
+  return { revision: appendRevision(data, pdf.context, [page.ref, added]), added }
+}
+
+const lastStartxref = (text: string) => Number([...text.matchAll(/startxref\s+(\d+)/g)].pop()![1])
+
+/**
+ * Reads the entries of the cross-reference section at `offset`, the way a
+ * reader following startxref would, as object number to byte offset.
+ */
+const readXref = (data: Uint8Array, offset: number) => {
+  const text = decoder.decode(data)
+  const entries = new Map<number, number>()
+  if (text.startsWith("xref", offset)) {
+    const [table, trailer] = text.slice(offset + 4).split("trailer")
+    const lines = table.trim().split(/\r?\n/)
+    for (let line = 0; line < lines.length;) {
+      const [first, count] = lines[line].split(" ").map(Number)
+      for (let index = 0; index < count; index++) {
+        entries.set(first + index, Number(lines[line + 1 + index].slice(0, 10)))
+      }
+      line += count + 1
+    }
+    return { isTable: true, entries, dictionary: trailer.slice(0, trailer.indexOf("startxref")) }
+  }
+  const dictionary = text.slice(offset, text.indexOf("stream", offset))
+  assert.match(dictionary, /\/Type \/XRef/)
+  const widths = /\/W \[ ?(\d+) (\d+) (\d+) ?\]/.exec(dictionary)!.slice(1).map(Number)
+  const index = /\/Index \[([\d ]+)\]/.exec(dictionary)![1].trim().split(/\s+/).map(Number)
+  assert.deepEqual(widths, [1, 4, 2])
+  let row = text.indexOf("stream", offset) + "stream\n".length
+  for (let section = 0; section < index.length; section += 2) {
+    for (let objectNumber = index[section]; objectNumber < index[section] + index[section + 1]; objectNumber++) {
+      const view = new DataView(data.buffer, data.byteOffset + row, 7)
+      assert.equal(view.getUint8(0), 1)
+      entries.set(objectNumber, view.getUint32(1))
+      row += 7
+    }
+  }
+  return { isTable: false, entries, dictionary }
+}
+
+const checkRevision = (original: Uint8Array, revision: Uint8Array, expectTable: boolean) => {
+  assert.deepEqual(revision.subarray(0, original.length), original)
+  const text = decoder.decode(revision)
+  const { isTable, entries, dictionary } = readXref(revision, lastStartxref(text))
+  assert.equal(isTable, expectTable)
+  assert.match(dictionary, new RegExp(`/Prev ${lastStartxref(decoder.decode(original))}\\b`))
+  for (const [objectNumber, offset] of entries) {
+    assert.ok(offset >= original.length, `Object ${objectNumber} points into the original bytes`)
+    assert.match(text.slice(offset, offset + 20), new RegExp(`^${objectNumber} 0 obj`))
+  }
+  return entries
+}
+
+for (const [kind, useObjectStreams] of [
+  ["a cross-reference table", false],
+  ["a cross-reference stream", true],
+] as const) {
+  describe(`appendRevision on a PDF with ${kind}`, () => {
+    it("appends the changed objects with a section of the same kind", async () => {
+      const original = await createPDF(useObjectStreams)
+      const { revision, added } = await revise(original)
+      const entries = checkRevision(original, revision, !useObjectStreams)
+      assert.ok(entries.has(added.objectNumber))
+
+      const reloaded = await PDFDocument.load(revision)
+      assert.equal(reloaded.getPage(0).getRotation().angle, 90)
+      assert.equal(reloaded.getPage(1).getRotation().angle, 0)
+    })
+
+    it("numbers new objects past every object the document has", async () => {
+      const original = await createPDF(useObjectStreams)
+      const size = Number(
+        /\/Size (\d+)/.exec(decoder.decode(original).slice(lastStartxref(decoder.decode(original))))![1]
+      )
+      const { added } = await revise(original)
+      assert.ok(added.objectNumber >= size)
+    })
+
+    it("chains a second revision to the first", async () => {
+      const original = await createPDF(useObjectStreams)
+      const { revision: first } = await revise(original)
+      const pdf = await loadForRevision(first)
+      const page = pdf.getPage(1)
+      page.node.set(PDFName.of("UserUnit"), pdf.context.obj(2))
+      const second = appendRevision(first, pdf.context, [page.ref])
+      checkRevision(first, second, !useObjectStreams)
+      assert.equal((await PDFDocument.load(second)).getPage(0).getRotation().angle, 90)
+    })
+  })
+}
+
+describe("appendRevision", () => {
+  it("refuses data without a cross-reference section", async () => {
+    const pdf = await PDFDocument.create()
+    assert.throws(() => appendRevision(new Uint8Array([0x25, 0x50, 0x44, 0x46]), pdf.context, []), {
+      message: "The PDF has no cross-reference table to append to",
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  type PDFContext,
+  type PDFObject,
+  type PDFRef,
+} from "pdf-lib"
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder("latin1")
+
+// Bytes per field of the cross-reference stream entries we write: type,
+// byte offset, generation.
+const XREF_WIDTHS = [1, 4, 2]
+
+const serialize = (object: PDFObject) => {
+  const bytes = new Uint8Array(object.sizeInBytes())
+  object.copyBytesInto(bytes, 0)
+  return bytes
+}
+
+/**
+ * Where the last cross-reference section starts and whether it is a classic
+ * table or a stream. A new revision has to use the same kind, since readers
+ * that only understand tables can't follow /Prev into a stream.
+ */
+const findLastXref = (data: Uint8Array) => {
+  // startxref sits in the last kilobyte or so; read a little more to be safe.
+  const tail = decoder.decode(data.subarray(Math.max(0, data.length - 4096)))
+  const match = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(tail) ?? [...tail.matchAll(/startxref\s+(\d+)/g)].pop()
+  if (!match) {
+    throw new Error("The PDF has no cross-reference table to append to")
+  }
+  const offset = Number(match[1])
+  const isTable = decoder.decode(data.subarray(offset, offset + 4)) === "xref"
+  return { offset, isTable }
+}
+
+// Consecutive object numbers share one subsection of the cross-reference.
+const subsections = (objectNumbers: number[]) => {
+  const sections: { first: number; count: number }[] = []
+  for (const objectNumber of objectNumbers) {
+    const last = sections[sections.length - 1]
+    if (last && last.first + last.count === objectNumber) {
+      last.count += 1
+    } else {
+      sections.push({ first: objectNumber, count: 1 })
+    }
+  }
+  return sections
+}
+
+const trailerEntries = (context: PDFContext, size: number, prev: number) => {
+  const trailer = PDFDict.withContext(context)
+  trailer.set(PDFName.of("Size"), PDFNumber.of(size))
+  const { Root, Info, ID } = context.trailerInfo
+  const entries: [string, PDFObject | undefined][] = [
+    ["Root", Root],
+    ["Info", Info],
+    ["ID", ID],
+  ]
+  entries.forEach(([key, value]) => {
+    if (value) {
+      trailer.set(PDFName.of(key), value)
+    }
+  })
+  trailer.set(PDFName.of("Prev"), PDFNumber.of(prev))
+  return trailer
+}
+
+/**
+ * Readies a document loaded from `data` for a revision to be appended to it.
+ * pdf-lib drops the cross-reference and object streams it parses, so new
+ * objects could reuse their numbers; numbering resumes past the /Size of the
+ * last section instead.
+ */
+export const prepareForRevision = (pdf: PDFDocument, data: Uint8Array) => {
+  if (pdf.isEncrypted) {
+    // New objects would have to be encrypted with the document's key.
+    throw new Error("Encrypted PDFs can't be saved with rotation or annotations")
+  }
+  const { offset } = findLastXref(data)
+  // The first /Size from there on is in the trailer after the table, or in
+  // the dictionary that opens the stream.
+  const size = Number(/\/Size\s+(\d+)/.exec(decoder.decode(data.subarray(offset)))?.[1] ?? 0)
+  pdf.context.largestObjectNumber = Math.max(pdf.context.largestObjectNumber, size - 1)
+  return pdf
+}
+
+/**
+ * Loads a document to append a revision to; see prepareForRevision.
+ */
+export const loadForRevision = async (data: Uint8Array) =>
+  prepareForRevision(await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false }), data)
+
+/**
+ * Appends the objects behind `refs`, new or changed, to `data` as an
+ * incremental update (PDF 32000-1, 7.5.6). The original bytes stay as they
+ * are, so signatures over earlier revisions remain valid and the change can be
+ * rolled back by truncating the file. `context` is the one `data` was loaded
+ * into with loadForRevision or prepareForRevision.
+ */
+export const appendRevision = (data: Uint8Array, context: PDFContext, refs: PDFRef[]): Uint8Array => {
+  const { offset: prev, isTable } = findLastXref(data)
+  const chunks: Uint8Array[] = [data]
+  let length = data.length
+  const write = (bytes: Uint8Array | string) => {
+    const encoded = typeof bytes === "string" ? encoder.encode(bytes) : bytes
+    chunks.push(encoded)
+    length += encoded.length
+  }
+
+  const lastByte = data[data.length - 1]
+  if (lastByte !== 0x0a && lastByte !== 0x0d) {
+    write("\n")
+  }
+
+  const sorted = [...refs].sort((a, b) => a.objectNumber - b.objectNumber)
+  const entries = new Map<number, { offset: number; generation: number }>()
+  const writeObject = (ref: PDFRef, object: PDFObject) => {
+    entries.set(ref.objectNumber, { offset: length, generation: ref.generationNumber })
+    write(`${ref.objectNumber} ${ref.generationNumber} obj\n`)
+    write(serialize(object))
+    write("\nendobj\n")
+  }
+  for (const ref of sorted) {
+    const object = context.lookup(ref)
+    if (!object) {
+      throw new Error(`Object ${ref.toString()} is missing from the document`)
+    }
+    writeObject(ref, object)
+  }
+
+  if (isTable) {
+    const size = context.largestObjectNumber + 1
+    const xrefOffset = length
+    let table = "xref\n"
+    for (const { first, count } of subsections([...entries.keys()])) {
+      table += `${first} ${count}\n`
+      for (let objectNumber = first; objectNumber < first + count; objectNumber++) {
+        const { offset, generation } = entries.get(objectNumber)!
+        // Each entry is exactly 20 bytes, hence the two-character line end.
+        table += `${String(offset).padStart(10, "0")} ${String(generation).padStart(5, "0")} n\r\n`
+      }
+    }
+    write(table)
+    write("trailer\n")
+    write(serialize(trailerEntries(context, size, prev)))
+    write(`\nstartxref\n${xrefOffset}\n%%EOF\n`)
+  } else {
+    // The stream lists itself, so it needs its number before it is written.
+    const xrefRef = context.nextRef()
+    const xrefOffset = length
+    entries.set(xrefRef.objectNumber, { offset: xrefOffset, generation: 0 })
+    const objectNumbers = [...entries.keys()]
+    const rowSize = XREF_WIDTHS.reduce((sum, width) => sum + width, 0)
+    const rows = new Uint8Array(objectNumbers.length * rowSize)
+    const view = new DataView(rows.buffer)
+    objectNumbers.forEach((objectNumber, index) => {
+      const { offset, generation } = entries.get(objectNumber)!
+      const row = index * rowSize
+      view.setUint8(row, 1)
+      view.setUint32(row + 1, offset)
+      view.setUint16(row + 5, generation)
+    })
+    const dict = trailerEntries(context, context.largestObjectNumber + 1, prev)
+    dict.set(PDFName.of("Type"), PDFName.of("XRef"))
+    dict.set(PDFName.of("W"), context.obj(XREF_WIDTHS))
+    const index = PDFArray.withContext(context)
+    for (const { first, count } of subsections(objectNumbers)) {
+      index.push(PDFNumber.of(first))
+      index.push(PDFNumber.of(count))
+    }
+    dict.set(PDFName.of("Index"), index)
+    writeObject(xrefRef, PDFRawStream.of(dict, rows))
+    write(`startxref\n${xrefOffset}\n%%EOF\n`)
+  }
+
+  const revision = new Uint8Array(length)
+  let position = 0
+  for (const chunk of chunks) {
+    revision.set(chunk, position)
+    position += chunk.length
+  }
+  return revision
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { findMatches, highlightTextItem, type PageText } from "@/lib/pdfSearch"
+
+// Two text items, "Fish & " and "chips, fish", on page 1.
+const PAGE: PageText = { pageNumber: 1, text: "Fish & chips, fish", itemOffsets: [0, 7] }
+
+describe("findMatches", () => {
+  it("finds every match regardless of case", () => {
+    const matches = findMatches([PAGE], " FISH ")
+    assert.deepEqual(
+      matches.map(({ id, start, end }) => ({ id, start, end })),
+      [
+        { id: "1:0", start: 0, end: 4 },
+        { id: "1:14", start: 14, end: 18 },
+      ]
+    )
+    assert.deepEqual(matches[1].snippet, { before: "Fish & chips, ", match: "fish", after: "" })
+  })
+
+  it("finds nothing for a blank query", () => {
+    assert.deepEqual(findMatches([PAGE], "  "), [])
+  })
+})
+
+describe("highlightTextItem", () => {
+  it("escapes items without matches", () => {
+    assert.equal(highlightTextItem("Fish & ", 0, PAGE, [], null), "Fish &amp; ")
+  })
+
+  it("marks the part of a match inside the item, and the active one apart", () => {
+    const matches = findMatches([PAGE], "fish")
+    assert.equal(
+      highlightTextItem("Fish & ", 0, PAGE, matches, "1:14"),
+      '<mark class="pdf-search-hit">Fish</mark> &amp; '
+    )
+    assert.equal(
+      highlightTextItem("chips, fish", 1, PAGE, matches, "1:14"),
+      'chips, <mark class="pdf-search-hit pdf-search-hit--active">fish</mark>'
+    )
+  })
+
+  it("splits a match that spans two items", () => {
+    const matches = findMatches([PAGE], "& chips")
+    assert.equal(
+      highlightTextItem("Fish & ", 0, PAGE, matches, null),
+      'Fish <mark class="pdf-search-hit">&amp; </mark>'
+    )
+    assert.equal(
+      highlightTextItem("chips, fish", 1, PAGE, matches, null),
+      '<mark class="pdf-search-hit">chips</mark>, fish'
+    )
+  })
+})
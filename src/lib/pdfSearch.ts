@@ -0,0 +1,136 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+import type { TextItem } from "pdfjs-dist/types/src/display/api"
+
+const SNIPPET_CONTEXT = 40
+
+export interface PageText {
+  pageNumber: number
+  text: string
+  // Start offset of every text item within `text`, indexed like
+  // `getTextContent().items` so it lines up with the rendered text layer.
+  itemOffsets: number[]
+}
+
+export interface SearchMatch {
+  id: string
+  pageNumber: number
+  start: number
+  end: number
+  snippet: {
+    before: string
+    match: string
+    after: string
+  }
+}
+
+const isTextItem = (item: object): item is TextItem => "str" in item
+
+export const extractPageText = async (page: PDFPageProxy): Promise<PageText> => {
+  const content = await page.getTextContent()
+  let text = ""
+  const itemOffsets: number[] = []
+
+  content.items.forEach((item) => {
+    itemOffsets.push(text.length)
+    if (!isTextItem(item)) {
+      return
+    }
+    text += item.str
+    if (item.hasEOL) {
+      text += " "
+    }
+  })
+
+  return { pageNumber: page.pageNumber, text, itemOffsets }
+}
+
+export const extractDocumentText = async (
+  pdf: PDFDocumentProxy,
+  onPage?: (pageText: PageText) => void,
+  signal?: AbortSignal
+): Promise<PageText[]> => {
+  const pages: PageText[] = []
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    if (signal?.aborted) {
+      break
+    }
+    const page = await pdf.getPage(pageNumber)
+    const pageText = await extractPageText(page)
+    pages.push(pageText)
+    onPage?.(pageText)
+  }
+  return pages
+}
+
+const collapse = (value: string) => value.replace(/\s+/g, " ")
+
+export const findMatches = (pages: PageText[], query: string): SearchMatch[] => {
+  const needle = query.trim().toLowerCase()
+  if (!needle) {
+    return []
+  }
+
+  const matches: SearchMatch[] = []
+  pages.forEach(({ pageNumber, text }) => {
+    const haystack = text.toLowerCase()
+    let start = haystack.indexOf(needle)
+    while (start !== -1) {
+      const end = start + needle.length
+      matches.push({
+        id: `${pageNumber}:${start}`,
+        pageNumber,
+        start,
+        end,
+        snippet: {
+          before: collapse(text.slice(Math.max(0, start - SNIPPET_CONTEXT), start)).trimStart(),
+          match: text.slice(start, end),
+          after: collapse(text.slice(end, end + SNIPPET_CONTEXT)).trimEnd(),
+        },
+      })
+      start = haystack.indexOf(needle, end)
+    }
+  })
+  return matches
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+
+/**
+ * Renders a single text layer item as HTML, wrapping the parts that fall
+ * inside a search match in `<mark>` elements.
+ */
+export const highlightTextItem = (
+  str: string,
+  itemIndex: number,
+  pageText: PageText | undefined,
+  matches: SearchMatch[],
+  activeMatchId: string | null
+): string => {
+  const itemStart = pageText?.itemOffsets[itemIndex]
+  if (itemStart === undefined || matches.length === 0) {
+    return escapeHtml(str)
+  }
+  const itemEnd = itemStart + str.length
+
+  let html = ""
+  let cursor = 0
+  matches.forEach((match) => {
+    if (match.end <= itemStart || match.start >= itemEnd) {
+      return
+    }
+    const from = Math.max(match.start, itemStart) - itemStart
+    const to = Math.min(match.end, itemEnd) - itemStart
+    const className = match.id === activeMatchId ? "pdf-search-hit pdf-search-hit--active" : "pdf-search-hit"
+    html += escapeHtml(str.slice(cursor, from))
+    html += `<mark class="${className}">${escapeHtml(str.slice(from, to))}</mark>`
+    cursor = to
+  })
+  html += escapeHtml(str.slice(cursor))
+  return html
+}
@@ -0,0 +1,49 @@
+export type PDFSource =
+  | { kind: "url"; url: string }
+  | { kind: "file"; name: string; data: Uint8Array; lastModified: number }
+
+export const SAMPLE_PDF_URL = "https://www.aeee.in/wp-content/uploads/2020/08/Sample-pdf.pdf"
+
+/**
+ * Stable identifier for per-document preferences such as rotation.
+ */
+export const getSourceKey = (source: PDFSource) =>
+  source.kind === "url"
+    ? `url:${source.url}`
+    : `file:${source.name}:${source.data.byteLength}:${source.lastModified}`
+
+export const getSourceName = (source: PDFSource) => {
+  if (source.kind === "file") {
+    return source.name
+  }
+  try {
+    const { pathname, hostname } = new URL(source.url)
+    return decodeURIComponent(pathname.split("/").filter(Boolean).pop() ?? hostname)
+  } catch {
+    return source.url
+  }
+}
+
+/**
+ * Whether a document URL is one the viewer may fetch or hand to the browser:
+ * only http and https, never javascript:, data: and the like.
+ */
+export const isWebURL = (url: string) => {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === "http:" || protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+export const isPDFFile = (file: File) =>
+  file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf")
+
+export const readPDFFile = async (file: File): Promise<PDFSource> => {
+  if (!isPDFFile(file)) {
+    throw new Error(`"${file.name}" is not a PDF file`)
+  }
+  const buffer = await file.arrayBuffer()
+  return { kind: "file", name: file.name, data: new Uint8Array(buffer), lastModified: file.lastModified }
+}
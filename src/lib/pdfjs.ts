@@ -0,0 +1,31 @@
+import { pdfjs } from "react-pdf"
+import type { DocumentProps } from "react-pdf"
+import type { PDFDocumentProxy } from "pdfjs-dist"
+import workerSrc from "pdfjs-dist/build/pdf.worker.min.js?url"
+
+// Everything pdf.js loads at runtime comes from our own origin: the worker
+// is emitted as a Vite asset, and the cMaps and standard fonts are copied
+// to /pdfjs/ by the pdfjs-assets plugin in vite.config.ts.
+pdfjs.GlobalWorkerOptions.workerSrc = workerSrc
+
+const ASSET_BASE = `${import.meta.env.BASE_URL}pdfjs/`
+
+/**
+ * Options for every <Document>. Kept as a single object because react-pdf
+ * reloads the document whenever `options` changes identity.
+ */
+export const PDF_OPTIONS: DocumentProps["options"] = {
+  cMapUrl: `${ASSET_BASE}cmaps/`,
+  cMapPacked: true,
+  standardFontDataUrl: `${ASSET_BASE}standard_fonts/`,
+}
+
+/**
+ * The document's bytes once pdf.js has all of them. getData() on its own
+ * fetches every range that hasn't streamed in yet; this waits for the file to
+ * finish loading the way pdf.js loads it anyway, so nothing is fetched twice.
+ */
+export const getLoadedData = async (pdf: PDFDocumentProxy) => {
+  await pdf.getDownloadInfo()
+  return pdf.getData()
+}
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { findSpreadIndex, formatSpreadLabel, getSpreads } from "@/lib/spreads"
+
+describe("getSpreads", () => {
+  it("groups pages for each spread mode", () => {
+    assert.deepEqual(getSpreads(3, "single"), [[1], [2], [3]])
+    assert.deepEqual(getSpreads(5, "two-up"), [[1, 2], [3, 4], [5]])
+    assert.deepEqual(getSpreads(4, "book"), [[1], [2, 3], [4]])
+    assert.deepEqual(getSpreads(0, "book"), [])
+  })
+})
+
+describe("findSpreadIndex", () => {
+  it("finds the spread a page is in, or the first one", () => {
+    const spreads = getSpreads(5, "book")
+    assert.equal(findSpreadIndex(spreads, 3), 1)
+    assert.equal(findSpreadIndex(spreads, 9), 0)
+  })
+})
+
+describe("formatSpreadLabel", () => {
+  it("labels single pages and spreads", () => {
+    assert.equal(formatSpreadLabel([4], 10), "Page 4 of 10")
+    assert.equal(formatSpreadLabel([2, 3], 10), "Pages 2–3 of 10")
+    assert.equal(formatSpreadLabel(undefined, null), "Page 1 of –")
+  })
+})
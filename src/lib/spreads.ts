@@ -0,0 +1,43 @@
+export type SpreadMode = "single" | "two-up" | "book"
+
+/**
+ * Groups page numbers into the spreads shown side by side.
+ *
+ * - single: every page on its own
+ * - two-up: odd pages on the left (1-2, 3-4, ...)
+ * - book: the cover on its own, then facing pairs (1, 2-3, 4-5, ...)
+ */
+export const getSpreads = (numPages: number, mode: SpreadMode): number[][] => {
+  const spreads: number[][] = []
+  let pageNumber = 1
+
+  if (mode === "book" && numPages > 0) {
+    spreads.push([1])
+    pageNumber = 2
+  }
+
+  while (pageNumber <= numPages) {
+    if (mode === "single" || pageNumber === numPages) {
+      spreads.push([pageNumber])
+      pageNumber += 1
+    } else {
+      spreads.push([pageNumber, pageNumber + 1])
+      pageNumber += 2
+    }
+  }
+
+  return spreads
+}
+
+export const findSpreadIndex = (spreads: number[][], pageNumber: number): number => {
+  const index = spreads.findIndex((spread) => spread.includes(pageNumber))
+  return index === -1 ? 0 : index
+}
+
+export const formatSpreadLabel = (spread: number[] | undefined, numPages: number | null): string => {
+  const total = numPages ?? "–"
+  if (!spread || spread.length < 2) {
+    return `Page ${spread?.[0] ?? 1} of ${total}`
+  }
+  return `Pages ${spread[0]}–${spread[spread.length - 1]} of ${total}`
+}
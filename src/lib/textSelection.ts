@@ -0,0 +1,184 @@
+interface TextFragment {
+  text: string
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Fraction of the line height two fragments may be apart vertically and still
+// count as the same line, and the gap above which a new paragraph starts.
+const SAME_LINE_TOLERANCE = 0.5
+const PARAGRAPH_GAP = 0.8
+// Horizontal gap (relative to font height) that is treated as a word space.
+const WORD_GAP = 0.15
+
+/**
+ * Maps a client rect into the unrotated coordinate space of a text layer, so
+ * line grouping works the same whether or not the page is rotated.
+ */
+const toLayerSpace = (rect: DOMRect, layer: HTMLElement) => {
+  const bounds = layer.getBoundingClientRect()
+  const rotation = Number(layer.getAttribute("data-main-rotation") ?? 0)
+  const x1 = rect.left - bounds.left
+  const y1 = rect.top - bounds.top
+  const x2 = rect.right - bounds.left
+  const y2 = rect.bottom - bounds.top
+
+  let corners: [number, number][]
+  switch (rotation) {
+    case 90:
+      corners = [[y1, bounds.width - x1], [y2, bounds.width - x2]]
+      break
+    case 180:
+      corners = [[bounds.width - x1, bounds.height - y1], [bounds.width - x2, bounds.height - y2]]
+      break
+    case 270:
+      corners = [[bounds.height - y1, x1], [bounds.height - y2, x2]]
+      break
+    default:
+      corners = [[x1, y1], [x2, y2]]
+  }
+
+  const left = Math.min(corners[0][0], corners[1][0])
+  const top = Math.min(corners[0][1], corners[1][1])
+  return {
+    left,
+    top,
+    width: Math.abs(corners[0][0] - corners[1][0]),
+    height: Math.abs(corners[0][1] - corners[1][1]),
+  }
+}
+
+// The part of `range` that lies inside `span`.
+const clipRange = (span: HTMLElement, range: Range) => {
+  const partial = document.createRange()
+  partial.selectNodeContents(span)
+  if (span.contains(range.startContainer)) {
+    partial.setStart(range.startContainer, range.startOffset)
+  }
+  if (span.contains(range.endContainer)) {
+    partial.setEnd(range.endContainer, range.endOffset)
+  }
+  return partial
+}
+
+const selectedTextOf = (span: HTMLElement, range: Range) => clipRange(span, range).toString()
+
+const collectFragments = (layer: HTMLElement, range: Range): TextFragment[] => {
+  const spans = layer.querySelectorAll<HTMLElement>('span[role="presentation"]')
+  const fragments: TextFragment[] = []
+  spans.forEach((span) => {
+    if (!range.intersectsNode(span)) {
+      return
+    }
+    const text = selectedTextOf(span, range)
+    if (!text) {
+      return
+    }
+    fragments.push({ text, ...toLayerSpace(span.getBoundingClientRect(), layer) })
+  })
+  return fragments
+}
+
+const joinFragments = (fragments: TextFragment[]) => {
+  let output = ""
+  let previous: TextFragment | null = null
+
+  fragments.forEach((fragment) => {
+    if (previous) {
+      const lineHeight = Math.max(previous.height, fragment.height)
+      const previousBottom = previous.top + previous.height
+      const sameLine = Math.abs(fragment.top + fragment.height - previousBottom) < lineHeight * SAME_LINE_TOLERANCE
+
+      if (sameLine) {
+        const gap = fragment.left - (previous.left + previous.width)
+        if (gap > fragment.height * WORD_GAP && !/\s$/.test(output) && !/^\s/.test(fragment.text)) {
+          output += " "
+        }
+      } else {
+        output = output.replace(/[ \t]+$/, "")
+        const gap = fragment.top - previousBottom
+        output += gap > lineHeight * PARAGRAPH_GAP ? "\n\n" : "\n"
+      }
+    }
+    output += fragment.text
+    previous = fragment
+  })
+
+  return output.replace(/[ \t]+$/, "")
+}
+
+const layersInRange = (range: Range): HTMLElement[] => {
+  const ancestor = range.commonAncestorContainer
+  const element = ancestor instanceof HTMLElement ? ancestor : ancestor.parentElement
+  const enclosing = element?.closest<HTMLElement>(".textLayer")
+  if (enclosing) {
+    return [enclosing]
+  }
+  const layers = element?.querySelectorAll<HTMLElement>(".textLayer") ?? []
+  return Array.from(layers).filter((layer) => range.intersectsNode(layer))
+}
+
+/**
+ * Rebuilds the selected text from the positions of the text layer spans
+ * instead of relying on DOM order, which gives one line break per visual
+ * line and a blank line between paragraphs. Returns null when the selection
+ * does not touch a text layer, so the browser's default copy can run.
+ */
+export const getSelectedPDFText = (selection: Selection | null): string | null => {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return null
+  }
+
+  const pages: string[] = []
+  for (let index = 0; index < selection.rangeCount; index++) {
+    const range = selection.getRangeAt(index)
+    layersInRange(range).forEach((layer) => {
+      const text = joinFragments(collectFragments(layer, range))
+      if (text) {
+        pages.push(text)
+      }
+    })
+  }
+
+  return pages.length > 0 ? pages.join("\n\n") : null
+}
+
+export interface SelectedTextRects {
+  layer: HTMLElement
+  // Client rects of the selected glyphs only, without the element boxes a
+  // plain Range.getClientRects() adds for everything the selection spans.
+  rects: DOMRect[]
+  text: string
+}
+
+/**
+ * Where the selected text is on screen, one entry per text layer touched.
+ */
+export const getSelectedTextRects = (selection: Selection | null): SelectedTextRects[] => {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+    return []
+  }
+
+  const result: SelectedTextRects[] = []
+  for (let index = 0; index < selection.rangeCount; index++) {
+    const range = selection.getRangeAt(index)
+    layersInRange(range).forEach((layer) => {
+      const rects: DOMRect[] = []
+      layer.querySelectorAll<HTMLElement>('span[role="presentation"]').forEach((span) => {
+        if (!range.intersectsNode(span)) {
+          return
+        }
+        const partial = clipRange(span, range)
+        if (partial.toString().trim()) {
+          rects.push(...Array.from(partial.getClientRects()))
+        }
+      })
+      if (rects.length > 0) {
+        result.push({ layer, rects, text: joinFragments(collectFragments(layer, range)) })
+      }
+    })
+  }
+  return result
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { formatViewHash, parseViewParams } from "@/lib/viewParams"
+import { MAX_ZOOM } from "@/lib/zoom"
+
+const parse = (query: string, hash = "") => parseViewParams(new URLSearchParams(query), hash)
+
+describe("parseViewParams", () => {
+  it("reads Adobe's open parameters from the fragment", () => {
+    assert.deepEqual(parse("", "#page=5&zoom=150,0,200&search=%22two%20words%22"), {
+      page: 5,
+      zoom: 150,
+      zoomMode: "custom",
+      search: "two words",
+    })
+  })
+
+  it("maps fit views and pdf.js zoom names to zoom modes", () => {
+    assert.deepEqual(parse("view=FitH,100"), { zoomMode: "fit-width" })
+    assert.deepEqual(parse("view=Fit"), { zoomMode: "fit-page" })
+    assert.deepEqual(parse("zoom=page-width"), { zoomMode: "fit-width" })
+    assert.deepEqual(parse("zoom=page-fit"), { zoomMode: "fit-page" })
+  })
+
+  it("lets the fragment win over the query string", () => {
+    assert.deepEqual(parse("page=2&zoom=50", "#page=3"), { page: 3, zoom: 50, zoomMode: "custom" })
+  })
+
+  it("ignores values it can't use and clamps the zoom", () => {
+    assert.deepEqual(parse("page=0&zoom=abc&view=FitR"), {})
+    assert.deepEqual(parse("zoom=100000"), { zoom: MAX_ZOOM, zoomMode: "custom" })
+  })
+})
+
+describe("formatViewHash", () => {
+  it("writes what parseViewParams reads back", () => {
+    const view = { page: 4, zoom: 125, zoomMode: "custom", search: "a & b" } as const
+    assert.deepEqual(parse("", formatViewHash(view)), view)
+    assert.equal(formatViewHash({ page: 1, zoom: 300, zoomMode: "fit-width" }), "page=1&view=FitH")
+  })
+})
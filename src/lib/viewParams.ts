@@ -0,0 +1,87 @@
+import { clampZoom, type ZoomMode } from "@/lib/zoom"
+
+/**
+ * The part of the viewer state that can be shared as a link.
+ */
+export interface ViewParams {
+  page?: number
+  zoom?: number
+  zoomMode?: ZoomMode
+  search?: string
+}
+
+const parseZoom = (value: string): Pick<ViewParams, "zoom" | "zoomMode"> => {
+  // pdf.js names for the fit modes.
+  if (value === "page-width") {
+    return { zoomMode: "fit-width" }
+  }
+  if (value === "page-fit") {
+    return { zoomMode: "fit-page" }
+  }
+  // Adobe allows "zoom=scale,left,top"; only the scale matters here.
+  const scale = Number.parseFloat(value.split(",")[0])
+  return Number.isFinite(scale) && scale > 0 ? { zoom: clampZoom(scale), zoomMode: "custom" } : {}
+}
+
+const parseView = (value: string): Pick<ViewParams, "zoomMode"> => {
+  const view = value.split(",")[0].toLowerCase()
+  if (view === "fit" || view === "fitb") {
+    return { zoomMode: "fit-page" }
+  }
+  if (view === "fith" || view === "fitbh") {
+    return { zoomMode: "fit-width" }
+  }
+  return {}
+}
+
+const readParams = (params: URLSearchParams): ViewParams => {
+  const view: ViewParams = {}
+  const page = Number.parseInt(params.get("page") ?? "", 10)
+  if (page > 0) {
+    view.page = page
+  }
+  const viewMode = params.get("view")
+  if (viewMode) {
+    Object.assign(view, parseView(viewMode))
+  }
+  const zoom = params.get("zoom")
+  if (zoom) {
+    Object.assign(view, parseZoom(zoom))
+  }
+  const search = params.get("search")
+  if (search) {
+    // Adobe quotes the search terms: search="word1 word2".
+    view.search = search.replace(/^"(.*)"$/, "$1")
+  }
+  return view
+}
+
+/**
+ * Reads page, zoom and search from the query string and from the fragment,
+ * where Adobe's open parameters live (`#page=5&zoom=150`). The fragment wins.
+ */
+export const parseViewParams = (query: URLSearchParams, hash: string): ViewParams => ({
+  ...readParams(query),
+  ...readParams(new URLSearchParams(hash.replace(/^#/, ""))),
+})
+
+/**
+ * Formats the state as an Adobe-compatible fragment, without the leading "#".
+ */
+export const formatViewHash = (view: ViewParams) => {
+  const params = new URLSearchParams()
+  if (view.page) {
+    params.set("page", String(view.page))
+  }
+  if (view.zoomMode === "fit-width") {
+    params.set("view", "FitH")
+  } else if (view.zoomMode === "fit-page") {
+    params.set("view", "Fit")
+  } else if (view.zoom) {
+    params.set("zoom", String(Math.round(view.zoom)))
+  }
+  if (view.search) {
+    params.set("search", view.search)
+  }
+  return params.toString()
+}
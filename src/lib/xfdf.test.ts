@@ -0,0 +1,145 @@
+import assert from "node:assert/strict"
+import { before, describe, it } from "node:test"
+import { DOMParser as XMLDOMParser } from "@xmldom/xmldom"
+import { AnnotationFileError } from "@/lib/annotationJSON"
+import type { Annotation } from "@/lib/annotations"
+import { parseXFDF, toXFDF } from "@/lib/xfdf"
+
+const CREATED_AT = Date.UTC(2024, 0, 2, 3, 4, 5)
+
+const ANNOTATIONS: Annotation[] = [
+  {
+    id: "underline-1",
+    type: "underline",
+    pageNumber: 1,
+    rects: [[10, 700, 200, 712]],
+    color: "#e11d48",
+    text: "Fish & chips",
+    author: "Ada",
+    createdAt: CREATED_AT,
+  },
+  {
+    id: "ink-1",
+    type: "ink",
+    pageNumber: 2,
+    paths: [
+      [
+        [10, 10],
+        [20, 30],
+      ],
+    ],
+    color: "#2563eb",
+    width: 2,
+    author: "Grace",
+    createdAt: CREATED_AT,
+  },
+  {
+    id: "rectangle-1",
+    type: "rectangle",
+    pageNumber: 2,
+    start: [50, 50],
+    end: [150, 100],
+    color: "#000000",
+    width: 4,
+    author: "Grace",
+    createdAt: CREATED_AT,
+  },
+  {
+    id: "arrow-1",
+    type: "arrow",
+    pageNumber: 1,
+    start: [150, 100],
+    end: [50, 50],
+    color: "#e11d48",
+    width: 1,
+    author: "Grace",
+    createdAt: CREATED_AT,
+  },
+  {
+    id: "note-1",
+    type: "note",
+    pageNumber: 1,
+    point: [300, 400],
+    color: "#facc15",
+    author: "Ada",
+    text: "Is this <right>?",
+    createdAt: CREATED_AT,
+    status: "resolved",
+    replies: [{ id: "reply-1", author: "Grace", text: "Yes", createdAt: CREATED_AT + 1000 }],
+  },
+]
+
+// Fields the format has no value for are read back as undefined.
+const definedFields = (value: unknown) => JSON.parse(JSON.stringify(value))
+
+const xfdf = (annots: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?><xfdf xmlns="http://ns.adobe.com/xfdf/"><annots>${annots}</annots></xfdf>`
+
+describe("parseXFDF", () => {
+  before(() => {
+    // Browsers report malformed XML as a document with a <parsererror> in it
+    // rather than by throwing.
+    globalThis.DOMParser = class {
+      parseFromString(text: string, type: string) {
+        try {
+          return new XMLDOMParser({
+            onError: (level, message) => {
+              if (level !== "warning") {
+                throw new Error(message)
+              }
+            },
+          }).parseFromString(text, type)
+        } catch (err) {
+          return new XMLDOMParser().parseFromString(`<parsererror>${(err as Error).message}</parsererror>`, type)
+        }
+      }
+    } as unknown as typeof DOMParser
+  })
+
+  it("reads back what it exports", () => {
+    assert.deepEqual(definedFields(parseXFDF(toXFDF(ANNOTATIONS, "doc.pdf"), 2)), ANNOTATIONS)
+  })
+
+  it("skips annotation types it doesn't support", () => {
+    const annotations = parseXFDF(xfdf('<freetext page="0" rect="0,0,10,10" name="f"/>'), 1)
+    assert.deepEqual(annotations, [])
+  })
+
+  it("rejects malformed XML", () => {
+    assert.throws(
+      () => parseXFDF("<xfdf><annots>", 1),
+      (err) => err instanceof AnnotationFileError && err.message === "The file isn't valid XML"
+    )
+  })
+
+  it("rejects XML that isn't XFDF", () => {
+    assert.throws(
+      () => parseXFDF("<annotations/>", 1),
+      (err) =>
+        err instanceof AnnotationFileError &&
+        err.message === "The file isn't XFDF" &&
+        err.issues[0] === "Expected an <xfdf> root element, found <annotations>"
+    )
+  })
+
+  it("names each element that doesn't fit", () => {
+    assert.throws(
+      () =>
+        parseXFDF(
+          xfdf(
+            '<square page="0" rect="0,0,10,10" name="no-date" color="#000000"/>' +
+              '<highlight page="3" rect="0,0,10,10" name="late" color="#FDE047" date="D:20240102030405Z" ' +
+              'coords="0,10,10,10,0,0,10,0"/>'
+          ),
+          2
+        ),
+      (err) => {
+        assert.ok(err instanceof AnnotationFileError)
+        assert.equal(err.message, "The file doesn't match the XFDF annotations we support")
+        assert.match(err.issues.join("\n"), /^<square> #1 \(name "no-date"\) › createdAt: /m)
+        assert.match(err.issues.join("\n"), /^<highlight> #2 \(name "late"\) › page: Page 3 is past the end/m)
+        return true
+      }
+    )
+  })
+})
@@ -0,0 +1,363 @@
+import { getAnnotationRect, rectToQuad } from "@/lib/annotationGeometry"
+import {
+  HIGHLIGHT_COLORS,
+  LINE_MARKUP_COLOR,
+  NOTE_COLOR,
+  type Annotation,
+  type CommentReply,
+  type NoteAnnotation,
+} from "@/lib/annotations"
+import {
+  AnnotationFileError,
+  formatIssues,
+  fromAnnotationEntry,
+  entryIssues,
+  validateEntry,
+  type AnnotationEntry,
+} from "@/lib/annotationJSON"
+import { formatPDFDate, parsePDFDate } from "@/lib/pdfDate"
+
+// XFDF (ISO 19444-1) is the XML form of a PDF's annotations that Acrobat and
+// most other editors import and export.
+const XFDF_NAMESPACE = "http://ns.adobe.com/xfdf/"
+
+const SUPPORTED_ELEMENTS = ["highlight", "underline", "strikeout", "ink", "square", "circle", "line", "text"]
+
+const SHAPE_ELEMENTS: Record<"rectangle" | "ellipse", string> = { rectangle: "square", ellipse: "circle" }
+
+// Line endings that make a line an arrow; the tip is at the end that has one.
+const ARROW_ENDINGS = ["OpenArrow", "ClosedArrow", "ROpenArrow", "RClosedArrow"]
+
+const DEFAULT_COLORS: Record<string, string> = {
+  highlight: HIGHLIGHT_COLORS[0].value,
+  underline: LINE_MARKUP_COLOR,
+  strikeout: LINE_MARKUP_COLOR,
+  ink: "#000000",
+  square: "#000000",
+  circle: "#000000",
+  line: "#000000",
+  text: NOTE_COLOR,
+}
+
+const ENTITIES: Record<string, string> = { "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;", "'": "&apos;" }
+
+const escapeXML = (text: string) => text.replace(/[<>&"']/g, (char) => ENTITIES[char])
+
+const formatNumber = (value: number) => String(Number(value.toFixed(3)))
+
+const element = (
+  name: string,
+  attributes: Record<string, string | number | undefined>,
+  children: string[] = []
+) => {
+  const attributeText = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXML(String(value))}"`)
+    .join("")
+  return children.length === 0
+    ? `<${name}${attributeText}/>`
+    : `<${name}${attributeText}>${children.join("")}</${name}>`
+}
+
+const contents = (text: string) => element("contents", {}, [escapeXML(text)])
+
+const commonAttributes = (annotation: Annotation) => ({
+  page: annotation.pageNumber - 1,
+  rect: getAnnotationRect(annotation).map(formatNumber).join(","),
+  color: annotation.color.toUpperCase(),
+  title: annotation.author,
+  name: annotation.id,
+  creationdate: formatPDFDate(annotation.createdAt),
+  date: formatPDFDate(annotation.createdAt),
+})
+
+const noteElements = (note: NoteAnnotation) => {
+  const attributes = commonAttributes(note)
+  const reply = ({ id, author, text, createdAt }: CommentReply) =>
+    element(
+      "text",
+      {
+        ...attributes,
+        title: author,
+        name: id,
+        creationdate: formatPDFDate(createdAt),
+        date: formatPDFDate(createdAt),
+        inreplyto: note.id,
+        replyType: "reply",
+      },
+      [contents(text)]
+    )
+  return [
+    element("text", { ...attributes, icon: "Comment" }, [contents(note.text)]),
+    ...note.replies.map(reply),
+    // Review state travels as a reply carrying it, as in the PDF itself.
+    ...(note.status === "resolved"
+      ? [
+          element(
+            "text",
+            {
+              ...attributes,
+              name: `${note.id}-state`,
+              inreplyto: note.id,
+              state: "Completed",
+              statemodel: "Review",
+            },
+            [contents("Completed")]
+          ),
+        ]
+      : []),
+  ]
+}
+
+export const toXFDF = (annotations: Annotation[], fileName?: string) => {
+  const elements = annotations.flatMap((annotation) => {
+    switch (annotation.type) {
+      case "note":
+        return annotation.text === "" ? [] : noteElements(annotation)
+      case "rectangle":
+      case "ellipse":
+        return [
+          element(SHAPE_ELEMENTS[annotation.type], {
+            ...commonAttributes(annotation),
+            width: formatNumber(annotation.width),
+          }),
+        ]
+      case "line":
+      case "arrow":
+        return [
+          element("line", {
+            ...commonAttributes(annotation),
+            width: formatNumber(annotation.width),
+            start: annotation.start.map(formatNumber).join(","),
+            end: annotation.end.map(formatNumber).join(","),
+            head: "None",
+            tail: annotation.type === "arrow" ? "OpenArrow" : "None",
+          }),
+        ]
+      case "ink":
+        // XFDF has no place for pen pressure; strokes keep their full width.
+        return [
+          element("ink", {
+            ...commonAttributes(annotation),
+            width: formatNumber(annotation.width),
+            opacity: annotation.opacity,
+          }, [
+            element(
+              "inklist",
+              {},
+              annotation.paths.map((path) =>
+                element("gesture", {}, [path.map((point) => point.map(formatNumber).join(",")).join(";")])
+              )
+            ),
+          ]),
+        ]
+      default:
+        return [
+          element(
+            annotation.type,
+            {
+              ...commonAttributes(annotation),
+              coords: annotation.rects.flatMap(rectToQuad).map(formatNumber).join(","),
+            },
+            [contents(annotation.text)]
+          ),
+        ]
+    }
+  })
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xfdf xmlns="${XFDF_NAMESPACE}" xml:space="preserve">`,
+    ...(fileName ? [`  ${element("f", { href: fileName })}`] : []),
+    "  <annots>",
+    ...elements.map((line) => `    ${line}`),
+    "  </annots>",
+    "</xfdf>",
+    "",
+  ].join("\n")
+}
+
+const numbersOf = (value: string | null) =>
+  value === null
+    ? undefined
+    : value
+        .split(/[\s,;]+/)
+        .filter(Boolean)
+        .map(Number)
+
+const chunk = <T>(values: T[], size: number) =>
+  Array.from({ length: Math.ceil(values.length / size) }, (_, index) => values.slice(index * size, (index + 1) * size))
+
+// Dates go through as ISO strings so the JSON schema checks them; ones we
+// can't read stay as they are and fail there.
+const dateOf = (item: Element) => {
+  const value = item.getAttribute("creationdate") ?? item.getAttribute("date")
+  const parsed = parsePDFDate(value)
+  return parsed === null ? value ?? undefined : new Date(parsed).toISOString()
+}
+
+const textOf = (item: Element) => {
+  const child = Array.from(item.children).find(
+    (candidate) => candidate.localName === "contents" || candidate.localName === "contents-richtext"
+  )
+  return child?.textContent?.trim() ?? ""
+}
+
+/**
+ * Converts an XFDF element to the shape of a JSON entry, without checking it;
+ * the JSON schema does that, so both formats report problems the same way.
+ */
+const toRawEntry = (item: Element) => {
+  const type = item.localName === "text" ? "note" : item.localName
+  const common = {
+    id: item.getAttribute("name") ?? undefined,
+    type,
+    page: Number(item.getAttribute("page")),
+    rect: numbersOf(item.getAttribute("rect")),
+    color: item.getAttribute("color") ?? DEFAULT_COLORS[item.localName],
+    author: item.getAttribute("title") ?? undefined,
+    createdAt: dateOf(item),
+  }
+  switch (item.localName) {
+    case "text":
+      return {
+        ...common,
+        author: common.author ?? "",
+        // An empty note would read as an unposted draft.
+        content: textOf(item) || "(empty note)",
+        status: "open",
+        replies: [] as unknown[],
+      }
+    case "ink": {
+      const gestures = Array.from(item.getElementsByTagNameNS("*", "gesture"))
+      const opacity = item.getAttribute("opacity")
+      return {
+        ...common,
+        paths: gestures.map((gesture) => chunk(numbersOf(gesture.textContent ?? "") ?? [], 2)),
+        width: Number(item.getAttribute("width") ?? 1),
+        opacity: opacity === null || Number(opacity) === 1 ? undefined : Number(opacity),
+      }
+    }
+    case "square":
+    case "circle": {
+      // The rect includes the border; the shape runs along its middle.
+      const width = Number(item.getAttribute("width") ?? 1)
+      const [x1, y1, x2, y2] = common.rect ?? []
+      return {
+        ...common,
+        type: item.localName === "square" ? "rectangle" : "ellipse",
+        start: [x1 + width / 2, y1 + width / 2],
+        end: [x2 - width / 2, y2 - width / 2],
+        width,
+      }
+    }
+    case "line": {
+      const start = numbersOf(item.getAttribute("start"))
+      const end = numbersOf(item.getAttribute("end"))
+      const isArrowAt = (attribute: string) => ARROW_ENDINGS.includes(item.getAttribute(attribute) ?? "None")
+      // Arrows are stored pointing at their end, whichever end the file has the tip at.
+      const isReversed = isArrowAt("head") && !isArrowAt("tail")
+      return {
+        ...common,
+        type: isArrowAt("head") || isArrowAt("tail") ? "arrow" : "line",
+        start: isReversed ? end : start,
+        end: isReversed ? start : end,
+        width: Number(item.getAttribute("width") ?? 1),
+      }
+    }
+    default:
+      return {
+        ...common,
+        quadPoints: chunk(numbersOf(item.getAttribute("coords")) ?? [], 8),
+        content: textOf(item),
+      }
+  }
+}
+
+const describeElement = (item: Element, index: number) => {
+  const name = item.getAttribute("name")
+  return `<${item.localName}> #${index + 1}${name ? ` (name "${name}")` : ""}`
+}
+
+/**
+ * Reads highlights, underlines, strikeouts, ink, squares, circles, lines and
+ * notes with their replies and review state from XFDF. Other annotation types
+ * are skipped. Throws an AnnotationFileError listing every element that
+ * doesn't fit.
+ */
+export const parseXFDF = (text: string, pageCount: number): Annotation[] => {
+  const document = new DOMParser().parseFromString(text, "application/xml")
+  const parseError = document.getElementsByTagName("parsererror")[0]
+  if (parseError) {
+    throw new AnnotationFileError("The file isn't valid XML", [parseError.textContent?.trim() ?? ""])
+  }
+  if (document.documentElement.localName !== "xfdf") {
+    throw new AnnotationFileError("The file isn't XFDF", [
+      `Expected an <xfdf> root element, found <${document.documentElement.localName}>`,
+    ])
+  }
+
+  const items = Array.from(document.getElementsByTagNameNS("*", "annots")).flatMap((annots) =>
+    Array.from(annots.children)
+  )
+  const entries: { item: Element; index: number; entry: ReturnType<typeof toRawEntry> }[] = []
+  const notes = new Map<string, { status: string; replies: unknown[] }>()
+  const threadItems: Element[] = []
+  items.forEach((item, index) => {
+    if (!SUPPORTED_ELEMENTS.includes(item.localName)) {
+      return
+    }
+    if (item.localName === "text" && item.hasAttribute("inreplyto")) {
+      threadItems.push(item)
+      return
+    }
+    const entry = toRawEntry(item)
+    entries.push({ item, index, entry })
+    if ("replies" in entry && entry.id) {
+      notes.set(entry.id, entry)
+    }
+  })
+
+  // Replies and states may come before or after their note.
+  for (const item of threadItems) {
+    const note = notes.get(item.getAttribute("inreplyto")!)
+    if (!note) {
+      continue
+    }
+    const state = item.getAttribute("state")
+    if (state) {
+      note.status = state === "Completed" || state === "Accepted" ? "resolved" : "open"
+    } else {
+      note.replies.push({
+        id: item.getAttribute("name") ?? undefined,
+        author: item.getAttribute("title") ?? "",
+        content: textOf(item),
+        createdAt: dateOf(item),
+      })
+    }
+  }
+
+  const issues: string[] = []
+  const annotations: Annotation[] = []
+  for (const { item, index, entry } of entries) {
+    const result = validateEntry(entry)
+    const describe = describeElement(item, index)
+    if (!result.success) {
+      issues.push(...formatIssues(result.error, (path) => [describe, ...path].join(" › ")))
+      continue
+    }
+    const fitIssues = entryIssues([result.data], pageCount, (_, field) => `${describe} › ${field}`)
+    if (fitIssues.length > 0) {
+      issues.push(...fitIssues)
+      continue
+    }
+    const annotation = fromAnnotationEntry(result.data)
+    if (annotation.type === "note") {
+      annotation.replies.sort((a, b) => a.createdAt - b.createdAt)
+    }
+    annotations.push(annotation)
+  }
+  if (issues.length > 0) {
+    throw new AnnotationFileError("The file doesn't match the XFDF annotations we support", issues)
+  }
+  return annotations
+}
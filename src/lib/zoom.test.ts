@@ -0,0 +1,39 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { fitZoom, MAX_ZOOM, MIN_ZOOM, stepZoom, ZOOM_PRESETS } from "@/lib/zoom"
+
+describe("stepZoom", () => {
+  it("moves to the neighbouring preset", () => {
+    assert.equal(stepZoom(100, "in"), 110)
+    assert.equal(stepZoom(100, "out"), 90)
+    // Levels between presets go to the nearest one in that direction.
+    assert.equal(stepZoom(104, "in"), 110)
+    assert.equal(stepZoom(104, "out"), 100)
+  })
+
+  it("goes to the limits past the last presets", () => {
+    assert.equal(stepZoom(ZOOM_PRESETS[ZOOM_PRESETS.length - 1], "in"), MAX_ZOOM)
+    assert.equal(stepZoom(ZOOM_PRESETS[0], "out"), MIN_ZOOM)
+    assert.equal(stepZoom(MAX_ZOOM, "in"), MAX_ZOOM)
+    assert.equal(stepZoom(MIN_ZOOM, "out"), MIN_ZOOM)
+  })
+})
+
+describe("fitZoom", () => {
+  const page = { width: 600, height: 800 }
+
+  it("fits the width, or the whole page", () => {
+    const container = { width: 632, height: 432 }
+    assert.equal(fitZoom("fit-width", container, [page]), 100)
+    assert.equal(fitZoom("fit-page", container, [page]), 50)
+  })
+
+  it("fits a spread with the gap between its pages", () => {
+    assert.equal(fitZoom("fit-width", { width: 1240, height: 800 }, [page, page]), 100)
+  })
+
+  it("has no answer before anything is laid out", () => {
+    assert.equal(fitZoom("fit-width", { width: 0, height: 0 }, [page]), null)
+    assert.equal(fitZoom("fit-page", { width: 100, height: 100 }, []), null)
+  })
+})
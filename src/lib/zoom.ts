@@ -0,0 +1,50 @@
+export type ZoomMode = "custom" | "fit-width" | "fit-page"
+
+export const MIN_ZOOM = 10
+export const MAX_ZOOM = 800
+export const ZOOM_PRESETS = [25, 33, 50, 67, 75, 90, 100, 110, 125, 150, 175, 200, 250, 300, 400, 500]
+
+// Space kept free around the pages when fitting them to the container.
+const FIT_MARGIN = 16
+// Horizontal gap between the pages of a spread, in CSS pixels.
+export const SPREAD_GAP = 8
+
+export interface Size {
+  width: number
+  height: number
+}
+
+export const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM)
+
+/**
+ * Moves to the next preset in the given direction, so buttons step finely
+ * around 100% and coarsely at the extremes. Past the last preset it goes to
+ * the limit, so every zoom level the buttons allow can be reached.
+ */
+export const stepZoom = (zoom: number, direction: "in" | "out") => {
+  if (direction === "in") {
+    return ZOOM_PRESETS.find((preset) => preset > Math.round(zoom)) ?? MAX_ZOOM
+  }
+  return [...ZOOM_PRESETS].reverse().find((preset) => preset < Math.round(zoom)) ?? MIN_ZOOM
+}
+
+/**
+ * Computes the zoom level (in percent) that fits the given unscaled pages
+ * side by side into the container.
+ */
+export const fitZoom = (mode: Exclude<ZoomMode, "custom">, container: Size, pages: Size[]) => {
+  if (pages.length === 0 || container.width === 0 || container.height === 0) {
+    return null
+  }
+  const gaps = SPREAD_GAP * (pages.length - 1)
+  const contentWidth = pages.reduce((sum, page) => sum + page.width, 0)
+  const contentHeight = Math.max(...pages.map((page) => page.height))
+
+  const widthScale = (container.width - FIT_MARGIN * 2 - gaps) / contentWidth
+  const heightScale = (container.height - FIT_MARGIN * 2) / contentHeight
+  const scale = mode === "fit-width" ? widthScale : Math.min(widthScale, heightScale)
+
+  return clampZoom(Math.floor(scale * 1000) / 10)
+}
+
+export const formatZoom = (zoom: number) => `${Math.round(zoom)}%`
@@ -1,11 +1,10 @@
-import PDFViewer from "../components/PDFViewer"
+import { Navigate, useLocation } from "react-router-dom"
 
+// The viewer lives at /view so every state has a shareable link; the
+// sample document opens when no ?url= is given.
 const Index = () => {
-  return (
-    <div className="min-h-screen bg-background">
-      <PDFViewer url="https://www.aeee.in/wp-content/uploads/2020/08/Sample-pdf.pdf" />
-    </div>
-  )
+  const { search, hash } = useLocation()
+  return <Navigate to={{ pathname: "/view", search, hash }} replace />
 }
 
-export default Index
\ No newline at end of file
+export default Index
@@ -0,0 +1,24 @@
+import { Link } from "react-router-dom"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import CacheSettings from "@/components/settings/CacheSettings"
+
+const Settings = () => {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="w-full max-w-3xl mx-auto space-y-6 p-4">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to viewer
+          </Link>
+        </Button>
+        <div className="bg-[#121212] rounded-lg shadow-xl border border-[#00ffd5] p-6">
+          <CacheSettings />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Settings
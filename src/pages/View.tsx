@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useMemo } from "react"
+import { useLocation, useSearchParams } from "react-router-dom"
+import DocumentTabs from "@/components/pdf/DocumentTabs"
+import { useDocumentTabs } from "@/hooks/use-document-tabs"
+import { useLatest } from "@/hooks/use-latest"
+import { useToast } from "@/hooks/use-toast"
+import { isWebURL, SAMPLE_PDF_URL, type PDFSource } from "@/lib/pdfSource"
+import { formatViewHash, parseViewParams, type ViewParams } from "@/lib/viewParams"
+
+// /view?url=<document>#page=5&zoom=150&search=term
+// The link opens its document in a tab, next to the tabs restored from the
+// last visit; the address bar then follows whichever tab is active.
+const View = () => {
+  const [searchParams] = useSearchParams()
+  const { hash } = useLocation()
+  const url = searchParams.get("url")
+  const view = useMemo(() => parseViewParams(searchParams, hash), [searchParams, hash])
+  const { tabs, activeTab, openTab, showDocument, activateTab, closeTab, moveTab, updateTab } = useDocumentTabs()
+  // Read when a link changes, not watched: closing the last tab leaves the list empty.
+  const hasTabsRef = useLatest(tabs.length > 0)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (url && isWebURL(url)) {
+      showDocument(url, view)
+    } else if (url) {
+      // A link to javascript: or the like would end up in window.open later.
+      showDocument(SAMPLE_PDF_URL)
+      toast({
+        title: "Link not opened",
+        description: "Only http and https documents can be opened",
+        variant: "destructive",
+      })
+    } else if (!hasTabsRef.current) {
+      showDocument(SAMPLE_PDF_URL, view)
+    }
+  }, [url, view, showDocument, hasTabsRef, toast])
+
+  // replaceState rather than navigate(): the viewer already shows this state,
+  // so there is nothing for the router to re-render, and paging through a
+  // document shouldn't fill the back button's history.
+  const activeUrl = activeTab?.url ?? null
+  const activeView = activeTab?.view
+  const isLocalFile = activeTab?.fileName != null
+  useEffect(() => {
+    const params = new URLSearchParams()
+    // Local files can't be linked to, so their tab gets a bare /view.
+    if (activeUrl && !isLocalFile) {
+      params.set("url", activeUrl)
+    }
+    const query = params.toString()
+    const fragment = activeView && !isLocalFile ? formatViewHash(activeView) : ""
+    const target = `${window.location.pathname}${query ? `?${query}` : ""}${fragment ? `#${fragment}` : ""}`
+    if (target !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, "", target)
+    }
+  }, [activeUrl, activeView, isLocalFile])
+
+  // Views of a local file aren't kept: the tab reopens its URL after a reload.
+  const onViewChange = useCallback(
+    (id: string, next: ViewParams, documentUrl: string | null) => {
+      if (documentUrl !== null) {
+        updateTab(id, { view: next })
+      }
+    },
+    [updateTab]
+  )
+
+  const onSourceChange = useCallback(
+    (id: string, source: PDFSource) => updateTab(id, { fileName: source.kind === "file" ? source.name : null }),
+    [updateTab]
+  )
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DocumentTabs
+        tabs={tabs}
+        activeId={activeTab?.id ?? null}
+        onActivate={activateTab}
+        onOpen={openTab}
+        onClose={closeTab}
+        onMove={moveTab}
+        onViewChange={onViewChange}
+        onSourceChange={onSourceChange}
+      />
+    </div>
+  )
+}
+
+export default View
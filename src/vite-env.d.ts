@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the PDF proxy; the document URL is appended as `?url=`.
+  readonly VITE_PDF_PROXY_URL?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,7 +1,67 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import fs from "fs";
+import { createRequire } from "module";
 import { componentTagger } from "lovable-tagger";
+import { createPDFProxyHandler, readProxyOptions } from "./server/pdfProxy";
+
+// Serves /api/pdf-proxy from the dev and preview servers so no separate
+// process is needed locally.
+const pdfProxy = (env: Record<string, string>): Plugin => {
+  const handler = createPDFProxyHandler(readProxyOptions(env));
+  return {
+    name: "pdf-proxy",
+    configureServer(server) {
+      server.middlewares.use("/api/pdf-proxy", (req, res) => void handler(req, res));
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use("/api/pdf-proxy", (req, res) => void handler(req, res));
+    },
+  };
+};
+
+// Serves pdf.js's cMaps and standard fonts under /pdfjs/ in dev and copies
+// them into the build, so CJK text and non-embedded fonts render offline.
+const PDFJS_ASSET_DIRS = ["cmaps", "standard_fonts"];
+
+const pdfjsAssets = (): Plugin => {
+  const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+  return {
+    name: "pdfjs-assets",
+    configureServer(server) {
+      server.middlewares.use("/pdfjs", (req, res, next) => {
+        const [dir, encodedFile, ...rest] = (req.url ?? "").split("?")[0].split("/").filter(Boolean);
+        const file = decodeURIComponent(encodedFile ?? "");
+        const isAssetFile = Boolean(file) && path.basename(file) === file && !file.startsWith(".");
+        if (!PDFJS_ASSET_DIRS.includes(dir) || rest.length > 0 || !isAssetFile) {
+          next();
+          return;
+        }
+        const filePath = path.join(pdfjsRoot, dir, file);
+        fs.readFile(filePath, (error, data) => {
+          if (error) {
+            next();
+            return;
+          }
+          res.setHeader("Content-Type", "application/octet-stream");
+          res.end(data);
+        });
+      });
+    },
+    generateBundle() {
+      for (const dir of PDFJS_ASSET_DIRS) {
+        for (const file of fs.readdirSync(path.join(pdfjsRoot, dir))) {
+          this.emitFile({
+            type: "asset",
+            fileName: `pdfjs/${dir}/${file}`,
+            source: fs.readFileSync(path.join(pdfjsRoot, dir, file)),
+          });
+        }
+      }
+    },
+  };
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -11,6 +71,8 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    pdfProxy(loadEnv(mode, process.cwd(), "PDF_PROXY_")),
+    pdfjsAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),